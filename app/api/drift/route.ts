@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server"
+import { getDriftMonitor } from "../../../lib/drift"
+
+export async function GET() {
+  const monitor = getDriftMonitor()
+  return NextResponse.json({
+    alerts: monitor.getAlerts(),
+    series: monitor.getStates(),
+    timestamp: new Date().toISOString(),
+  })
+}
@@ -0,0 +1,6 @@
+import { NextResponse } from "next/server"
+
+// Answers as long as the process can serve requests; upstream trouble is left to the readiness check
+export async function GET() {
+  return NextResponse.json({ status: "ok", timestamp: new Date().toISOString() })
+}
@@ -0,0 +1,16 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getReadinessReport } from "../../../../lib/health"
+import { withRequestContext } from "../../../../lib/request-context"
+
+export async function GET(request: NextRequest) {
+  // Probes spend upstream quota, so they need an API key like the research routes
+  if (request.nextUrl.searchParams.get("probe") === "true") {
+    return withRequestContext(request, () => respond(true))
+  }
+  return respond(false)
+}
+
+async function respond(probe: boolean): Promise<NextResponse> {
+  const report = await getReadinessReport({ probe })
+  return NextResponse.json(report, { status: report.status === "unavailable" ? 503 : 200 })
+}
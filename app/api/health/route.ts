@@ -1,16 +1,33 @@
-import { NextResponse } from "next/server"
+import { type NextRequest, NextResponse } from "next/server"
+import { getReadinessReport } from "../../../lib/health"
+import { withRequestContext } from "../../../lib/request-context"
+
+export async function GET(request: NextRequest) {
+  // Probes spend upstream quota, so they need an API key like the research routes
+  if (request.nextUrl.searchParams.get("probe") === "true") {
+    return withRequestContext(request, () => respond(true))
+  }
+  return respond(false)
+}
+
+async function respond(probe: boolean): Promise<NextResponse> {
+  const report = await getReadinessReport({ probe })
 
-export async function GET() {
   return NextResponse.json({
-    status: "healthy",
-    service: "Content Research Microservice",
-    version: "1.0.0",
-    timestamp: new Date().toISOString(),
+    ...report,
     endpoints: {
       movie: "/api/research/movie",
       series: "/api/research/series",
       music: "/api/research/music",
       book: "/api/research/book",
+      search: "/api/search",
+      batch: "/api/research/batch",
+      jobs: "/api/jobs/{id}",
+      metrics: "/api/metrics",
+      selectors: "/api/selectors",
+      drift: "/api/drift",
+      liveness: "/api/health/live",
+      readiness: "/api/health/ready",
     },
     description:
       "Microservice for deep research and data scraping of movies, series, music, and books with streaming/availability focus",
@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getJobQueue, toJobPayload } from "../../../../lib/jobs"
+import { logger } from "../../../../lib/logger"
+import { withRequestContext } from "../../../../lib/request-context"
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  // Polling only reads a job that was charged for when it was submitted, so it uses no daily quota
+  return withRequestContext(request, async () => {
+    try {
+      const { id } = await params
+      const job = await getJobQueue().get(id)
+
+      if (!job) {
+        return NextResponse.json({ error: "Job not found" }, { status: 404 })
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: toJobPayload(job),
+        timestamp: new Date().toISOString(),
+      })
+    } catch (error) {
+      logger.error("Job status API error", { error })
+      return NextResponse.json(
+        {
+          error: "Failed to load job",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 500 },
+      )
+    }
+  }, { cost: async () => 0 })
+}
@@ -0,0 +1,7 @@
+import { metrics } from "../../../lib/metrics"
+
+export async function GET() {
+  return new Response(metrics.render(), {
+    headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+  })
+}
@@ -0,0 +1,61 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DEFAULT_BATCH_CONCURRENCY, getBatchCost, runBatch } from "../../../../lib/batch"
+import { logger } from "../../../../lib/logger"
+import { withRequestContext } from "../../../../lib/request-context"
+import { BatchRequestSchema, describeSchema, formatValidationErrors } from "../../../../lib/schemas"
+
+export async function POST(request: NextRequest) {
+  return withRequestContext(request, () => handleBatch(request), { cost: getBatchCost })
+}
+
+async function handleBatch(request: NextRequest): Promise<Response> {
+  try {
+    const parsed = BatchRequestSchema.safeParse(await request.json().catch(() => undefined))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", fields: formatValidationErrors(parsed.error) },
+        { status: 422 },
+      )
+    }
+
+    const results = await runBatch(parsed.data.items, parsed.data.concurrency ?? DEFAULT_BATCH_CONCURRENCY)
+    const succeeded = results.filter((result) => result.success).length
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        total: results.length,
+        succeeded,
+        failed: results.length - succeeded,
+        results,
+      },
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    logger.error("Batch research API error", { error })
+    return NextResponse.json(
+      {
+        error: "Failed to run research batch",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    endpoint: "Batch Research API",
+    description: "POST endpoint for researching a mixed list of movies, series, music and books in one call",
+    ...describeSchema(BatchRequestSchema),
+    example: {
+      concurrency: 4,
+      items: [
+        { id: "m-1", type: "movie", request: { title: "The Matrix", year: 1999 } },
+        { id: "s-1", type: "series", request: { title: "Breaking Bad" } },
+        { id: "a-1", type: "music", request: { title: "Bohemian Rhapsody", artist: "Queen" } },
+        { id: "b-1", type: "book", request: { title: "The Great Gatsby", author: "F. Scott Fitzgerald" } },
+      ],
+    },
+  })
+}
@@ -1,42 +1,56 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { enqueueResearch, isAsyncRequest } from "../../../../lib/async-research"
+import { logger } from "../../../../lib/logger"
+import { SourceReporter } from "../../../../lib/progress"
+import { withRequestContext } from "../../../../lib/request-context"
+import { describeSchema, formatValidationErrors, BookRequestSchema } from "../../../../lib/schemas"
 import { BookScraper } from "../../../../lib/scrapers/book-scraper"
-import type { BookRequest } from "../../../../lib/types"
 
 export async function POST(request: NextRequest) {
-  try {
-    const body: BookRequest = await request.json()
+  return withRequestContext(request, async () => {
+    try {
+      // Malformed JSON is reported through the schema as an invalid body
+      const parsed = BookRequestSchema.safeParse(await request.json().catch(() => undefined))
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: "Invalid request body", fields: formatValidationErrors(parsed.error) },
+          { status: 422 },
+        )
+      }
+      const body = parsed.data
 
-    // Validate required fields
-    if (!body.title) {
-      return NextResponse.json({ error: "Title is required" }, { status: 400 })
-    }
+      if (isAsyncRequest(request)) {
+        return enqueueResearch(request, "book", body)
+      }
 
-    const scraper = new BookScraper()
-    const bookData = await scraper.scrapeBookData(body)
+      const scraper = new BookScraper()
+      const sources = new SourceReporter()
+      const bookData = await scraper.scrapeBookData(body, sources.listener)
 
-    return NextResponse.json({
-      success: true,
-      data: bookData,
-      timestamp: new Date().toISOString(),
-    })
-  } catch (error) {
-    console.error("Book research API error:", error)
-    return NextResponse.json(
-      {
-        error: "Failed to research book data",
-        message: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 },
-    )
-  }
+      return NextResponse.json({
+        success: true,
+        data: bookData,
+        sources: sources.toJSON(),
+        timestamp: new Date().toISOString(),
+      })
+    } catch (error) {
+      logger.error("Book research API error", { error })
+      return NextResponse.json(
+        {
+          error: "Failed to research book data",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 500 },
+      )
+    }
+  })
 }
 
 export async function GET() {
   return NextResponse.json({
     endpoint: "Book Research API",
     description: "POST endpoint for researching comprehensive book data including purchase/reading availability",
-    requiredFields: ["title"],
-    optionalFields: ["author", "year", "isbn", "genre"],
+    ...describeSchema(BookRequestSchema),
     example: {
       title: "The Great Gatsby",
       author: "F. Scott Fitzgerald",
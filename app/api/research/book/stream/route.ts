@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withRequestContext } from "../../../../../lib/request-context"
+import { describeSchema, formatValidationErrors, BookRequestSchema } from "../../../../../lib/schemas"
+import { streamResearch } from "../../../../../lib/sse-research"
+
+export async function POST(request: NextRequest) {
+  return withRequestContext(request, async () => {
+    const parsed = BookRequestSchema.safeParse(await request.json().catch(() => undefined))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", fields: formatValidationErrors(parsed.error) },
+        { status: 422 },
+      )
+    }
+
+    return streamResearch("book", parsed.data, request.signal)
+  })
+}
+
+export async function GET() {
+  return NextResponse.json({
+    endpoint: "Book Research Stream API",
+    description: "POST endpoint streaming book data including purchase/reading availability as Server-Sent Events",
+    ...describeSchema(BookRequestSchema),
+    events: ["metadata", "availability", "progress", "sources", "result", "error"],
+  })
+}
@@ -1,47 +1,62 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { enqueueResearch, isAsyncRequest } from "../../../../lib/async-research"
+import { logger } from "../../../../lib/logger"
+import { SourceReporter } from "../../../../lib/progress"
+import { withRequestContext } from "../../../../lib/request-context"
+import { describeSchema, formatValidationErrors, MovieRequestSchema } from "../../../../lib/schemas"
 import { MovieScraper } from "../../../../lib/scrapers/movie-scraper"
-import type { MovieRequest } from "../../../../lib/types"
 
 export async function POST(request: NextRequest) {
-  try {
-    const body: MovieRequest = await request.json()
+  return withRequestContext(request, async () => {
+    try {
+      // Malformed JSON is reported through the schema as an invalid body
+      const parsed = MovieRequestSchema.safeParse(await request.json().catch(() => undefined))
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: "Invalid request body", fields: formatValidationErrors(parsed.error) },
+          { status: 422 },
+        )
+      }
+      const body = parsed.data
 
-    // Validate required fields
-    if (!body.title || !body.year) {
-      return NextResponse.json({ error: "Title and year are required fields" }, { status: 400 })
-    }
+      if (isAsyncRequest(request)) {
+        return enqueueResearch(request, "movie", body)
+      }
 
-    const scraper = new MovieScraper()
-    const movieData = await scraper.scrapeMovieData(body)
+      const scraper = new MovieScraper()
+      const sources = new SourceReporter()
+      const movieData = await scraper.scrapeMovieData(body, sources.listener)
 
-    return NextResponse.json({
-      success: true,
-      data: movieData,
-      timestamp: new Date().toISOString(),
-    })
-  } catch (error) {
-    console.error("Movie research API error:", error)
-    return NextResponse.json(
-      {
-        error: "Failed to research movie data",
-        message: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 },
-    )
-  }
+      return NextResponse.json({
+        success: true,
+        data: movieData,
+        sources: sources.toJSON(),
+        timestamp: new Date().toISOString(),
+      })
+    } catch (error) {
+      logger.error("Movie research API error", { error })
+      return NextResponse.json(
+        {
+          error: "Failed to research movie data",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 500 },
+      )
+    }
+  })
 }
 
 export async function GET() {
   return NextResponse.json({
     endpoint: "Movie Research API",
     description: "POST endpoint for researching comprehensive movie data including streaming availability",
-    requiredFields: ["title", "year"],
-    optionalFields: ["director", "cast", "genre"],
+    ...describeSchema(MovieRequestSchema),
     example: {
       title: "The Matrix",
       year: 1999,
       director: "The Wachowskis",
       genre: "Sci-Fi",
+      regions: ["US", "GB", "IN"],
     },
   })
 }
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withRequestContext } from "../../../../../lib/request-context"
+import { describeSchema, formatValidationErrors, MovieRequestSchema } from "../../../../../lib/schemas"
+import { streamResearch } from "../../../../../lib/sse-research"
+
+export async function POST(request: NextRequest) {
+  return withRequestContext(request, async () => {
+    const parsed = MovieRequestSchema.safeParse(await request.json().catch(() => undefined))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", fields: formatValidationErrors(parsed.error) },
+        { status: 422 },
+      )
+    }
+
+    return streamResearch("movie", parsed.data, request.signal)
+  })
+}
+
+export async function GET() {
+  return NextResponse.json({
+    endpoint: "Movie Research Stream API",
+    description: "POST endpoint streaming movie data including streaming availability as Server-Sent Events",
+    ...describeSchema(MovieRequestSchema),
+    events: ["metadata", "availability", "progress", "sources", "result", "error"],
+  })
+}
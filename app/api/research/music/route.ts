@@ -1,42 +1,56 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { enqueueResearch, isAsyncRequest } from "../../../../lib/async-research"
+import { logger } from "../../../../lib/logger"
+import { SourceReporter } from "../../../../lib/progress"
+import { withRequestContext } from "../../../../lib/request-context"
+import { describeSchema, formatValidationErrors, MusicRequestSchema } from "../../../../lib/schemas"
 import { MusicScraper } from "../../../../lib/scrapers/music-scraper"
-import type { MusicRequest } from "../../../../lib/types"
 
 export async function POST(request: NextRequest) {
-  try {
-    const body: MusicRequest = await request.json()
+  return withRequestContext(request, async () => {
+    try {
+      // Malformed JSON is reported through the schema as an invalid body
+      const parsed = MusicRequestSchema.safeParse(await request.json().catch(() => undefined))
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: "Invalid request body", fields: formatValidationErrors(parsed.error) },
+          { status: 422 },
+        )
+      }
+      const body = parsed.data
 
-    // Validate required fields
-    if (!body.title || !body.artist) {
-      return NextResponse.json({ error: "Title and artist are required fields" }, { status: 400 })
-    }
+      if (isAsyncRequest(request)) {
+        return enqueueResearch(request, "music", body)
+      }
 
-    const scraper = new MusicScraper()
-    const musicData = await scraper.scrapeMusicData(body)
+      const scraper = new MusicScraper()
+      const sources = new SourceReporter()
+      const musicData = await scraper.scrapeMusicData(body, sources.listener)
 
-    return NextResponse.json({
-      success: true,
-      data: musicData,
-      timestamp: new Date().toISOString(),
-    })
-  } catch (error) {
-    console.error("Music research API error:", error)
-    return NextResponse.json(
-      {
-        error: "Failed to research music data",
-        message: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 },
-    )
-  }
+      return NextResponse.json({
+        success: true,
+        data: musicData,
+        sources: sources.toJSON(),
+        timestamp: new Date().toISOString(),
+      })
+    } catch (error) {
+      logger.error("Music research API error", { error })
+      return NextResponse.json(
+        {
+          error: "Failed to research music data",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 500 },
+      )
+    }
+  })
 }
 
 export async function GET() {
   return NextResponse.json({
     endpoint: "Music Research API",
     description: "POST endpoint for researching comprehensive music data including streaming availability",
-    requiredFields: ["title", "artist"],
-    optionalFields: ["year", "album", "genre"],
+    ...describeSchema(MusicRequestSchema),
     example: {
       title: "Bohemian Rhapsody",
       artist: "Queen",
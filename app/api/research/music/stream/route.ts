@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withRequestContext } from "../../../../../lib/request-context"
+import { describeSchema, formatValidationErrors, MusicRequestSchema } from "../../../../../lib/schemas"
+import { streamResearch } from "../../../../../lib/sse-research"
+
+export async function POST(request: NextRequest) {
+  return withRequestContext(request, async () => {
+    const parsed = MusicRequestSchema.safeParse(await request.json().catch(() => undefined))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", fields: formatValidationErrors(parsed.error) },
+        { status: 422 },
+      )
+    }
+
+    return streamResearch("music", parsed.data, request.signal)
+  })
+}
+
+export async function GET() {
+  return NextResponse.json({
+    endpoint: "Music Research Stream API",
+    description: "POST endpoint streaming music data including streaming availability as Server-Sent Events",
+    ...describeSchema(MusicRequestSchema),
+    events: ["metadata", "availability", "progress", "sources", "result", "error"],
+  })
+}
@@ -1,42 +1,56 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { enqueueResearch, isAsyncRequest } from "../../../../lib/async-research"
+import { logger } from "../../../../lib/logger"
+import { SourceReporter } from "../../../../lib/progress"
+import { withRequestContext } from "../../../../lib/request-context"
+import { describeSchema, formatValidationErrors, SeriesRequestSchema } from "../../../../lib/schemas"
 import { SeriesScraper } from "../../../../lib/scrapers/series-scraper"
-import type { SeriesRequest } from "../../../../lib/types"
 
 export async function POST(request: NextRequest) {
-  try {
-    const body: SeriesRequest = await request.json()
+  return withRequestContext(request, async () => {
+    try {
+      // Malformed JSON is reported through the schema as an invalid body
+      const parsed = SeriesRequestSchema.safeParse(await request.json().catch(() => undefined))
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: "Invalid request body", fields: formatValidationErrors(parsed.error) },
+          { status: 422 },
+        )
+      }
+      const body = parsed.data
 
-    // Validate required fields
-    if (!body.title) {
-      return NextResponse.json({ error: "Title is required" }, { status: 400 })
-    }
+      if (isAsyncRequest(request)) {
+        return enqueueResearch(request, "series", body)
+      }
 
-    const scraper = new SeriesScraper()
-    const seriesData = await scraper.scrapeSeriesData(body)
+      const scraper = new SeriesScraper()
+      const sources = new SourceReporter()
+      const seriesData = await scraper.scrapeSeriesData(body, sources.listener)
 
-    return NextResponse.json({
-      success: true,
-      data: seriesData,
-      timestamp: new Date().toISOString(),
-    })
-  } catch (error) {
-    console.error("Series research API error:", error)
-    return NextResponse.json(
-      {
-        error: "Failed to research series data",
-        message: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 },
-    )
-  }
+      return NextResponse.json({
+        success: true,
+        data: seriesData,
+        sources: sources.toJSON(),
+        timestamp: new Date().toISOString(),
+      })
+    } catch (error) {
+      logger.error("Series research API error", { error })
+      return NextResponse.json(
+        {
+          error: "Failed to research series data",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 500 },
+      )
+    }
+  })
 }
 
 export async function GET() {
   return NextResponse.json({
     endpoint: "Series Research API",
     description: "POST endpoint for researching comprehensive TV series data including streaming availability",
-    requiredFields: ["title"],
-    optionalFields: ["year", "creator", "network", "genre"],
+    ...describeSchema(SeriesRequestSchema),
     example: {
       title: "Breaking Bad",
       year: 2008,
@@ -0,0 +1,37 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { logger } from "../../../lib/logger"
+import { withRequestContext } from "../../../lib/request-context"
+import { searchCandidates } from "../../../lib/research"
+import { DEFAULT_SEARCH_RESULTS, formatValidationErrors, SearchQuerySchema } from "../../../lib/schemas"
+
+export async function GET(request: NextRequest) {
+  return withRequestContext(request, async () => {
+    try {
+      const parsed = SearchQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: "Invalid search query", fields: formatValidationErrors(parsed.error) },
+          { status: 422 },
+        )
+      }
+
+      const { type, q, limit = DEFAULT_SEARCH_RESULTS } = parsed.data
+      const candidates = await searchCandidates(type, q, limit)
+
+      return NextResponse.json({
+        success: true,
+        data: { type, query: q, candidates },
+        timestamp: new Date().toISOString(),
+      })
+    } catch (error) {
+      logger.error("Search API error", { error })
+      return NextResponse.json(
+        {
+          error: "Failed to search",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 500 },
+      )
+    }
+  })
+}
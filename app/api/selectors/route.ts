@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server"
+import { runSelectorSelfTest } from "../../../lib/selectors/self-test"
+
+export async function GET() {
+  const report = runSelectorSelfTest()
+  return NextResponse.json(report, { status: report.status === "broken" ? 503 : 200 })
+}
@@ -1,4 +1,26 @@
-export default function Home() {
+import { getReadinessReport, type ReadinessStatus } from "../lib/health"
+
+// Rendered per request so the status reflects the running process
+export const dynamic = "force-dynamic"
+
+const STATUS_TEXT: Record<ReadinessStatus, string> = {
+  ready: "✅ All sources operational",
+  degraded: "⚠️ Some sources are failing",
+  unavailable: "❌ Upstream sources unreachable",
+}
+
+const DEPENDENCY_NAMES: Record<string, string> = {
+  tmdb: "TMDB",
+  omdb: "OMDB",
+  spotify: "Spotify",
+  googleBooks: "Google Books",
+  proxy: "Proxy pool",
+}
+
+export default async function Home() {
+  const health = await getReadinessReport()
+  const failingSources = Object.entries(health.sources).filter(([, source]) => source.failing)
+
   return (
     <div className="min-h-screen bg-gray-50 py-12 px-4">
       <div className="max-w-4xl mx-auto">
@@ -9,7 +31,27 @@ export default function Home() {
           </p>
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 mb-8">
             <h2 className="text-lg font-semibold text-blue-900 mb-2">Service Status</h2>
-            <p className="text-blue-700">✅ All endpoints operational</p>
+            <p className="text-blue-700 mb-4">{STATUS_TEXT[health.status]}</p>
+            <ul className="flex flex-wrap justify-center gap-3 text-sm">
+              {Object.entries(health.dependencies).map(([name, dependency]) => (
+                <li
+                  key={name}
+                  className={`px-3 py-1 rounded-full ${dependency.configured ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-500"}`}
+                >
+                  {DEPENDENCY_NAMES[name] ?? name}: {dependency.configured ? "configured" : "not configured"}
+                </li>
+              ))}
+            </ul>
+            {failingSources.length > 0 && (
+              <ul className="mt-4 text-sm text-left text-red-700 space-y-1">
+                {failingSources.map(([source, { lastError }]) => (
+                  <li key={source}>
+                    <code>{source}</code>: {lastError?.outcome === "rate_limited" ? "rate limited" : lastError?.message}
+                    {lastError && ` (${new Date(lastError.at).toLocaleString("en-US", { timeZone: "UTC" })} UTC)`}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         </div>
 
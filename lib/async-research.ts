@@ -0,0 +1,42 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getJobQueue } from "./jobs"
+import type { ResearchRequestMap, ResearchType } from "./research"
+import { CallbackUrlSchema, formatValidationErrors } from "./schemas"
+
+// `?async=true` on a research endpoint queues the lookup instead of holding the connection open
+export function isAsyncRequest(request: NextRequest): boolean {
+  return request.nextUrl.searchParams.get("async") === "true"
+}
+
+export async function enqueueResearch<T extends ResearchType>(
+  request: NextRequest,
+  type: T,
+  body: ResearchRequestMap[T],
+): Promise<NextResponse> {
+  const callbackParam = request.nextUrl.searchParams.get("callbackUrl")
+  let callbackUrl: string | undefined
+
+  if (callbackParam !== null) {
+    const parsed = CallbackUrlSchema.safeParse(callbackParam)
+    if (!parsed.success) {
+      const fields = formatValidationErrors(parsed.error).map((error) => ({ ...error, field: "callbackUrl" }))
+      return NextResponse.json({ error: "Invalid request body", fields }, { status: 422 })
+    }
+    callbackUrl = parsed.data
+  }
+
+  const job = await getJobQueue().enqueue(type, body, callbackUrl)
+
+  return NextResponse.json(
+    {
+      success: true,
+      data: {
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `/api/jobs/${job.id}`,
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 202 },
+  )
+}
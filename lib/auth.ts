@@ -0,0 +1,226 @@
+import { createHash } from "crypto"
+import { readFileSync } from "fs"
+import { z } from "zod"
+import { logger } from "./logger"
+
+export interface ApiClient {
+  id: string
+  rateLimitPerMinute: number
+  dailyQuota: number
+}
+
+export type AuthResult =
+  | { allowed: true; client?: ApiClient }
+  | {
+      allowed: false
+      status: 401 | 429 | 503
+      error: string
+      message: string
+      retryAfterSeconds?: number
+      client?: ApiClient
+    }
+
+interface ClientUsage {
+  // Token bucket refilled at rateLimitPerMinute / 60 per second, holding at most rateLimitPerMinute
+  tokens: number
+  refilledAt: number
+  // UTC date the daily count belongs to
+  day: string
+  used: number
+}
+
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 60
+const DEFAULT_DAILY_QUOTA = 1000
+
+const ApiKeySchema = z.string().min(16)
+
+const ApiKeyFileSchema = z.array(
+  z
+    .object({
+      id: z.string().min(1),
+      key: ApiKeySchema,
+      rateLimitPerMinute: z.number().int().positive().optional(),
+      dailyQuota: z.number().int().positive().optional(),
+    })
+    .strict(),
+)
+
+export class ApiKeyAuthenticator {
+  // Keyed by SHA-256 of the API key, so lookups never compare raw keys
+  private readonly clients: Map<string, ApiClient>
+  private readonly usage = new Map<string, ClientUsage>()
+
+  // `loadError` is set when keys were configured but could not be loaded; every request is then refused, since
+  // carrying on with the keys that did load (possibly none, which would open the API) is not what was configured
+  constructor(
+    clients: Map<string, ApiClient>,
+    private readonly loadError?: string,
+  ) {
+    this.clients = clients
+  }
+
+  // With no keys configured the API stays open, as it was before keys existed
+  get enabled(): boolean {
+    return this.clients.size > 0 || this.loadError !== undefined
+  }
+
+  // `cost` is the number of daily quota units the request uses, e.g. one per batch item; the rate limit always
+  // counts a request once
+  authorize(request: Request, cost = 1, now = Date.now()): AuthResult {
+    if (!this.enabled) return { allowed: true }
+    if (this.loadError) {
+      return { allowed: false, status: 503, error: "Service Unavailable", message: "API keys could not be loaded" }
+    }
+
+    const key = readApiKey(request)
+    if (!key) {
+      return {
+        allowed: false,
+        status: 401,
+        error: "Unauthorized",
+        message: "Pass an API key in the X-API-Key header or as a Bearer token",
+      }
+    }
+
+    const client = this.clients.get(hashKey(key))
+    if (!client) {
+      return { allowed: false, status: 401, error: "Unauthorized", message: "Unknown API key" }
+    }
+
+    const usage = this.getUsage(client, now)
+    if (usage.used + cost > client.dailyQuota) {
+      const remaining = client.dailyQuota - usage.used
+      return {
+        allowed: false,
+        status: 429,
+        error: "Daily quota exceeded",
+        message:
+          cost > 1
+            ? `${remaining} of ${client.dailyQuota} daily units left, this request needs ${cost}; resets at 00:00 UTC`
+            : `${client.dailyQuota} units per day allowed, resets at 00:00 UTC`,
+        retryAfterSeconds: secondsUntilNextUtcDay(now),
+        client,
+      }
+    }
+
+    if (usage.tokens < 1) {
+      const refillPerSecond = client.rateLimitPerMinute / 60
+      return {
+        allowed: false,
+        status: 429,
+        error: "Rate limit exceeded",
+        message: `${client.rateLimitPerMinute} requests per minute allowed`,
+        retryAfterSeconds: Math.ceil((1 - usage.tokens) / refillPerSecond),
+        client,
+      }
+    }
+
+    usage.tokens -= 1
+    usage.used += cost
+    return { allowed: true, client }
+  }
+
+  private getUsage(client: ApiClient, now: number): ClientUsage {
+    const day = new Date(now).toISOString().slice(0, 10)
+    let usage = this.usage.get(client.id)
+    if (!usage) {
+      usage = { tokens: client.rateLimitPerMinute, refilledAt: now, day, used: 0 }
+      this.usage.set(client.id, usage)
+    }
+
+    const elapsedSeconds = (now - usage.refilledAt) / 1000
+    usage.tokens = Math.min(client.rateLimitPerMinute, usage.tokens + (elapsedSeconds * client.rateLimitPerMinute) / 60)
+    usage.refilledAt = now
+
+    if (usage.day !== day) {
+      usage.day = day
+      usage.used = 0
+    }
+    return usage
+  }
+}
+
+let sharedAuthenticator: ApiKeyAuthenticator | null = null
+
+export function getApiKeyAuthenticator(): ApiKeyAuthenticator {
+  if (!sharedAuthenticator) {
+    const { clients, error } = loadClients()
+    sharedAuthenticator = new ApiKeyAuthenticator(clients, error)
+    if (error) {
+      logger.error("API keys could not be loaded, refusing every request that needs one", { error })
+    } else if (!sharedAuthenticator.enabled) {
+      logger.warn("No API keys configured, research routes are open to anyone")
+    }
+  }
+  return sharedAuthenticator
+}
+
+// API_KEYS holds "id:key" pairs separated by commas; API_KEYS_FILE a JSON array that can also set per-key limits.
+// Any malformed entry, or a key file that cannot be read, is reported as `error` instead of being skipped
+function loadClients(): { clients: Map<string, ApiClient>; error?: string } {
+  const defaults = {
+    rateLimitPerMinute: readIntFromEnv("API_RATE_LIMIT_PER_MINUTE", DEFAULT_RATE_LIMIT_PER_MINUTE),
+    dailyQuota: readIntFromEnv("API_DAILY_QUOTA", DEFAULT_DAILY_QUOTA),
+  }
+  const clients = new Map<string, ApiClient>()
+
+  const entries = (process.env.API_KEYS || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+  for (const [index, entry] of entries.entries()) {
+    const separator = entry.indexOf(":")
+    const id = entry.slice(0, separator).trim()
+    const key = entry.slice(separator + 1).trim()
+    // The key itself is never part of the error, since it ends up in the logs
+    if (separator <= 0 || !id) return { clients, error: `API_KEYS entry ${index + 1} is not an id:key pair` }
+    if (!ApiKeySchema.safeParse(key).success) {
+      return { clients, error: `API_KEYS entry ${index + 1} (${id}) has a key shorter than 16 characters` }
+    }
+    clients.set(hashKey(key), { id, ...defaults })
+  }
+
+  const file = process.env.API_KEYS_FILE
+  if (file) {
+    let parsed: z.SafeParseReturnType<unknown, z.infer<typeof ApiKeyFileSchema>>
+    try {
+      parsed = ApiKeyFileSchema.safeParse(JSON.parse(readFileSync(file, "utf8")))
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "Unknown error"
+      return { clients, error: `Could not read API key file ${file}: ${reason}` }
+    }
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")
+      return { clients, error: `Invalid API key file ${file}: ${issues}` }
+    }
+    for (const { key, ...client } of parsed.data) {
+      clients.set(hashKey(key), { ...defaults, ...client })
+    }
+  }
+
+  return { clients }
+}
+
+function readApiKey(request: Request): string | null {
+  const header = request.headers.get("x-api-key")
+  if (header) return header.trim()
+
+  const authorization = request.headers.get("authorization")
+  const match = authorization?.match(/^Bearer\s+(.+)$/i)
+  return match ? match[1].trim() : null
+}
+
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex")
+}
+
+function secondsUntilNextUtcDay(now: number): number {
+  const next = new Date(now)
+  next.setUTCHours(24, 0, 0, 0)
+  return Math.ceil((next.getTime() - now) / 1000)
+}
+
+function readIntFromEnv(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] || "")
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
@@ -0,0 +1,75 @@
+import { logger } from "./logger"
+import { SourceReporter, type SourceReport } from "./progress"
+import { RateLimiter } from "./rate-limiter"
+import { REQUEST_SCHEMAS, runResearch, type ResearchType } from "./research"
+import { BatchRequestSchema, formatValidationErrors, type FieldError } from "./schemas"
+
+export interface BatchItem {
+  id?: string
+  type: ResearchType
+  request: Record<string, unknown>
+}
+
+interface BatchItemReference {
+  index: number
+  id?: string
+  type: ResearchType
+}
+
+export type BatchItemResult =
+  | (BatchItemReference & { success: true; data: unknown; sources: SourceReport[] })
+  | (BatchItemReference & {
+      success: false
+      error: string
+      message?: string
+      fields?: FieldError[]
+      sources?: SourceReport[]
+    })
+
+export const DEFAULT_BATCH_CONCURRENCY = 4
+
+// Quota cost of a batch request: one unit per item, or one for a body that will be rejected anyway
+export async function getBatchCost(request: Request): Promise<number> {
+  const parsed = BatchRequestSchema.safeParse(await request.clone().json().catch(() => undefined))
+  return parsed.success ? parsed.data.items.length : 1
+}
+
+// Runs every item with at most `concurrency` in flight; results keep the input order and failures stay per item
+export async function runBatch(
+  items: BatchItem[],
+  concurrency = DEFAULT_BATCH_CONCURRENCY,
+): Promise<BatchItemResult[]> {
+  const limiter = new RateLimiter({ concurrency, minIntervalMs: 0 })
+  logger.info("Running research batch", { items: items.length, concurrency })
+
+  return Promise.all(items.map((item, index) => limiter.schedule(() => runBatchItem(item, index))))
+}
+
+async function runBatchItem(item: BatchItem, index: number): Promise<BatchItemResult> {
+  const reference: BatchItemReference = { index, id: item.id, type: item.type }
+
+  const parsed = REQUEST_SCHEMAS[item.type].safeParse(item.request)
+  if (!parsed.success) {
+    return {
+      ...reference,
+      success: false,
+      error: "Invalid request body",
+      fields: formatValidationErrors(parsed.error),
+    }
+  }
+
+  const sources = new SourceReporter()
+  try {
+    const data = await runResearch(item.type, parsed.data, sources.listener)
+    return { ...reference, success: true, data, sources: sources.toJSON() }
+  } catch (error) {
+    logger.error("Batch item failed", { index, type: item.type, error })
+    return {
+      ...reference,
+      success: false,
+      error: `Failed to research ${item.type} data`,
+      message: error instanceof Error ? error.message : "Unknown error",
+      sources: sources.toJSON(),
+    }
+  }
+}
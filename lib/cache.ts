@@ -0,0 +1,256 @@
+import { createHash } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+import { logger } from "./logger"
+import { cacheLookups } from "./metrics"
+
+const log = logger.child({ component: "cache" })
+
+export interface CacheEntry<T = any> {
+  value: T
+  storedAt: number
+  // After this the entry is served stale and refreshed in the background
+  freshUntil: number
+  // After this the entry is ignored and the caller waits for a fresh fetch
+  staleUntil: number
+}
+
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>
+  set(key: string, entry: CacheEntry): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+export interface CachePolicy {
+  ttlMs: number
+  staleWhileRevalidateMs: number
+}
+
+export type CacheSource = "tmdb" | "omdb" | "spotify" | "lyrics" | "googleBooks" | "availability"
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+const METADATA_POLICY: CachePolicy = {
+  ttlMs: readHoursFromEnv("CACHE_METADATA_TTL_HOURS", 7 * DAY),
+  staleWhileRevalidateMs: 30 * DAY,
+}
+
+const AVAILABILITY_POLICY: CachePolicy = {
+  ttlMs: readHoursFromEnv("CACHE_AVAILABILITY_TTL_HOURS", 6 * HOUR),
+  staleWhileRevalidateMs: 2 * DAY,
+}
+
+export const SOURCE_CACHE_POLICIES: Record<CacheSource, CachePolicy> = {
+  tmdb: METADATA_POLICY,
+  omdb: METADATA_POLICY,
+  spotify: METADATA_POLICY,
+  lyrics: METADATA_POLICY,
+  googleBooks: METADATA_POLICY,
+  availability: AVAILABILITY_POLICY,
+}
+
+function readHoursFromEnv(name: string, fallbackMs: number): number {
+  const hours = Number.parseFloat(process.env[name] || "")
+  return Number.isFinite(hours) && hours >= 0 ? hours * HOUR : fallbackMs
+}
+
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>()
+
+  constructor(private readonly maxEntries = 5000) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key)
+    if (entry && entry.staleUntil <= Date.now()) {
+      this.entries.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    // Map keeps insertion order, so re-inserting moves the key to the back and the front is the oldest
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value
+      if (oldestKey === undefined) break
+      this.entries.delete(oldestKey)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+}
+
+export class FileCacheStore implements CacheStore {
+  constructor(private readonly directory: string) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      const contents = await fs.readFile(this.getFilePath(key), "utf8")
+      const entry: CacheEntry = JSON.parse(contents)
+      if (entry.staleUntil <= Date.now()) {
+        await this.delete(key)
+        return undefined
+      }
+      return entry
+    } catch {
+      return undefined
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true })
+    await fs.writeFile(this.getFilePath(key), JSON.stringify(entry), "utf8")
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.getFilePath(key), { force: true })
+  }
+
+  private getFilePath(key: string): string {
+    return path.join(this.directory, `${createHash("sha1").update(key).digest("hex")}.json`)
+  }
+}
+
+// Minimal subset of the ioredis / node-redis client surface, so any compatible client can be passed in
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, mode: "PX", durationMs: number): Promise<unknown>
+  del(key: string): Promise<unknown>
+}
+
+export class RedisCacheStore implements CacheStore {
+  constructor(
+    private readonly client: RedisLikeClient,
+    private readonly prefix = "content-research:",
+  ) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const contents = await this.client.get(this.prefix + key)
+    return contents ? JSON.parse(contents) : undefined
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const ttl = Math.max(entry.staleUntil - Date.now(), 1)
+    await this.client.set(this.prefix + key, JSON.stringify(entry), "PX", ttl)
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.prefix + key)
+  }
+}
+
+export class ResponseCache {
+  private inFlight = new Map<string, Promise<any>>()
+
+  constructor(
+    private readonly store: CacheStore,
+    private readonly policies: Record<CacheSource, CachePolicy> = SOURCE_CACHE_POLICIES,
+  ) {}
+
+  // Returns the cached value for source + params, fetching on a miss and refreshing in the background once stale.
+  // null/undefined results are not cached since the scrapers use them to signal a failed lookup.
+  async wrap<T>(source: CacheSource, params: Record<string, unknown>, fetcher: () => Promise<T>): Promise<T> {
+    const key = buildCacheKey(source, params)
+    const now = Date.now()
+
+    let entry: CacheEntry<T> | undefined
+    try {
+      entry = await this.store.get(key)
+    } catch (error) {
+      log.error("Cache read failed", { key, error })
+    }
+
+    if (entry && entry.freshUntil > now) {
+      cacheLookups.inc({ source, result: "hit" })
+      return entry.value
+    }
+
+    if (entry && entry.staleUntil > now) {
+      cacheLookups.inc({ source, result: "stale" })
+      log.debug("Serving stale cache entry, revalidating in background", { source, key })
+      this.refresh(key, source, fetcher).catch((error) => {
+        log.error("Background revalidation failed", { key, error })
+      })
+      return entry.value
+    }
+
+    cacheLookups.inc({ source, result: "miss" })
+    return this.refresh(key, source, fetcher)
+  }
+
+  async invalidate(source: CacheSource, params: Record<string, unknown>): Promise<void> {
+    await this.store.delete(buildCacheKey(source, params))
+  }
+
+  private refresh<T>(key: string, source: CacheSource, fetcher: () => Promise<T>): Promise<T> {
+    // Concurrent lookups for the same key share one upstream fetch
+    const pending = this.inFlight.get(key)
+    if (pending) return pending
+
+    const promise = (async () => {
+      try {
+        const value = await fetcher()
+        if (value !== null && value !== undefined) {
+          const policy = this.policies[source]
+          const storedAt = Date.now()
+          await this.store
+            .set(key, {
+              value,
+              storedAt,
+              freshUntil: storedAt + policy.ttlMs,
+              staleUntil: storedAt + policy.ttlMs + policy.staleWhileRevalidateMs,
+            })
+            .catch((error) => log.error("Cache write failed", { key, error }))
+        }
+        return value
+      } finally {
+        this.inFlight.delete(key)
+      }
+    })()
+
+    this.inFlight.set(key, promise)
+    return promise
+  }
+}
+
+export function buildCacheKey(source: CacheSource, params: Record<string, unknown>): string {
+  const normalized = Object.keys(params)
+    .sort()
+    .filter((name) => params[name] !== undefined && params[name] !== null && params[name] !== "")
+    .map((name) => `${name}=${normalizeCacheValue(params[name])}`)
+  return `${source}:${normalized.join("&")}`
+}
+
+function normalizeCacheValue(value: unknown): string {
+  if (typeof value === "string") {
+    return value.trim().toLowerCase().replace(/\s+/g, " ")
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalizeCacheValue).sort().join(",")
+  }
+  return String(value)
+}
+
+let sharedCache: ResponseCache | null = null
+
+export function getResponseCache(): ResponseCache {
+  if (!sharedCache) {
+    const store =
+      process.env.CACHE_STORE === "file"
+        ? new FileCacheStore(process.env.CACHE_DIR || path.join(process.cwd(), ".cache", "research"))
+        : new MemoryCacheStore()
+    sharedCache = new ResponseCache(store)
+  }
+  return sharedCache
+}
+
+// Lets a deployment plug in e.g. a RedisCacheStore at startup
+export function setResponseCacheStore(store: CacheStore): void {
+  sharedCache = new ResponseCache(store)
+}
@@ -0,0 +1,90 @@
+import { lookup as lookupCallback } from "dns"
+import { lookup } from "dns/promises"
+import { Agent as HttpAgent } from "http"
+import { Agent as HttpsAgent } from "https"
+import { BlockList, isIP, type LookupFunction } from "net"
+
+// Loopback, private, link-local (including cloud metadata at 169.254.169.254), carrier-grade NAT, benchmarking,
+// multicast and reserved ranges; a callback to any of them would let a caller reach this service's own network
+const NON_PUBLIC = new BlockList()
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv4")
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv6")
+}
+
+export function isPublicAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)
+  if (mapped) return isPublicAddress(mapped[1])
+
+  const family = isIP(address)
+  if (family === 0) return false
+  return !NON_PUBLIC.check(address, family === 4 ? "ipv4" : "ipv6")
+}
+
+// Cheap check for request validation: rejects hosts that are non-public on their face, without resolving names
+export function isPublicHostname(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase()
+  if (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".internal")) return false
+  return isIP(host) === 0 || isPublicAddress(host)
+}
+
+// Checked again right before delivery, since a public-looking name can resolve to a private address
+export async function assertPublicCallbackUrl(url: string): Promise<void> {
+  const { hostname } = new URL(url)
+  if (!isPublicHostname(hostname)) {
+    throw new Error(`Callback host ${hostname} is not a public address`)
+  }
+
+  const addresses = await lookup(hostname.replace(/^\[|\]$/g, ""), { all: true })
+  const blocked = addresses.find(({ address }) => !isPublicAddress(address))
+  if (blocked) {
+    throw new Error(`Callback host ${hostname} resolves to non-public address ${blocked.address}`)
+  }
+}
+
+// Resolver for callback connections: the address a delivery connects to is checked again at connect time, so a name
+// that re-resolves to a private address after assertPublicCallbackUrl still cannot be reached
+export const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "")
+
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address))
+    if (blocked) {
+      return callback(new Error(`Callback host ${hostname} resolves to non-public address ${blocked.address}`), "")
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+let callbackAgents: { httpAgent: HttpAgent; httpsAgent: HttpsAgent } | null = null
+
+// Agents that only connect to public addresses, for requests to caller-supplied URLs
+export function getCallbackAgents(): { httpAgent: HttpAgent; httpsAgent: HttpsAgent } {
+  if (!callbackAgents) {
+    callbackAgents = {
+      httpAgent: new HttpAgent({ lookup: lookupPublicAddress }),
+      httpsAgent: new HttpsAgent({ lookup: lookupPublicAddress }),
+    }
+  }
+  return callbackAgents
+}
@@ -0,0 +1,173 @@
+import { getHttpClient, type HttpClient } from "./http-client"
+import { logger } from "./logger"
+import { extractionBaselineYield, extractionYield, scraperDriftAlerts } from "./metrics"
+
+export type ExtractionOutcome = "found" | "empty" | "failed"
+
+export interface DriftOptions {
+  // Recent extractions the current yield is computed over
+  window: number
+  // Older extractions the baseline averages over
+  baselineSamples: number
+  // Alert when the current yield drops below this share of the baseline
+  alertRatio: number
+  webhookUrl?: string
+}
+
+export interface DriftState {
+  source: string
+  selector: string
+  // Share of the current window that found something
+  yield: number
+  samples: number
+  // Absent until a full window of extractions has aged into it
+  baselineYield?: number
+  alerting: boolean
+  alertSince?: string
+}
+
+export interface DriftAlert {
+  event: "drift_detected" | "drift_resolved"
+  source: string
+  selector: string
+  yield: number
+  baselineYield: number
+  at: string
+}
+
+interface Series {
+  recent: boolean[]
+  baseline: number
+  baselineCount: number
+  alertSince?: string
+}
+
+// Chains whose baseline is this sparse legitimately come up empty for whole windows, so they never alert
+const MIN_BASELINE_YIELD = 0.1
+const DEFAULT_OPTIONS: DriftOptions = { window: 50, baselineSamples: 500, alertRatio: 0.25 }
+
+const log = logger.child({ component: "drift" })
+
+// Tracks, per source and selector, how often extractions come back empty or fail. Outcomes leaving the rolling window
+// are averaged into a baseline; a series alerts once its window yield drops below `alertRatio` of that baseline, and
+// the baseline is frozen while it alerts so a lasting breakage keeps alerting instead of becoming the new normal
+export class DriftMonitor {
+  private readonly series = new Map<string, Series>()
+
+  constructor(
+    private readonly options: DriftOptions = DEFAULT_OPTIONS,
+    private readonly http: HttpClient = getHttpClient(),
+  ) {}
+
+  record(source: string, selector: string, outcome: ExtractionOutcome): void {
+    const key = `${source}\u0000${selector}`
+    let series = this.series.get(key)
+    if (!series) {
+      series = { recent: [], baseline: 0, baselineCount: 0 }
+      this.series.set(key, series)
+    }
+
+    series.recent.push(outcome === "found")
+    if (series.recent.length > this.options.window) {
+      const aged = series.recent.shift() ? 1 : 0
+      if (!series.alertSince) {
+        series.baselineCount++
+        series.baseline += (aged - series.baseline) / Math.min(series.baselineCount, this.options.baselineSamples)
+      }
+    }
+
+    this.evaluate(source, selector, series)
+  }
+
+  getStates(): DriftState[] {
+    return [...this.series].map(([key, series]) => {
+      const [source, selector] = key.split("\u0000")
+      return {
+        source,
+        selector,
+        yield: getYield(series),
+        samples: series.recent.length,
+        baselineYield: this.hasBaseline(series) ? series.baseline : undefined,
+        alerting: Boolean(series.alertSince),
+        alertSince: series.alertSince,
+      }
+    })
+  }
+
+  getAlerts(): DriftState[] {
+    return this.getStates().filter((state) => state.alerting)
+  }
+
+  private evaluate(source: string, selector: string, series: Series): void {
+    const labels = { source, selector }
+    const current = getYield(series)
+    extractionYield.set(labels, current)
+    if (!this.hasBaseline(series)) return
+    extractionBaselineYield.set(labels, series.baseline)
+
+    const drifting = series.baseline >= MIN_BASELINE_YIELD && current < series.baseline * this.options.alertRatio
+
+    if (drifting && !series.alertSince) {
+      series.alertSince = new Date().toISOString()
+      log.warn("Scraper drift detected", { source, selector, yield: current, baselineYield: series.baseline })
+      this.notify({
+        event: "drift_detected",
+        ...labels,
+        yield: current,
+        baselineYield: series.baseline,
+        at: series.alertSince,
+      })
+    } else if (!drifting && series.alertSince) {
+      series.alertSince = undefined
+      log.info("Scraper drift resolved", { source, selector, yield: current, baselineYield: series.baseline })
+      this.notify({
+        event: "drift_resolved",
+        ...labels,
+        yield: current,
+        baselineYield: series.baseline,
+        at: new Date().toISOString(),
+      })
+    }
+    scraperDriftAlerts.set(labels, series.alertSince ? 1 : 0)
+  }
+
+  private hasBaseline(series: Series): boolean {
+    return series.baselineCount >= this.options.window
+  }
+
+  // Fire and forget: a failing webhook is logged and never delays the extraction that triggered it
+  private notify(alert: DriftAlert): void {
+    if (!this.options.webhookUrl) return
+
+    this.http
+      .post(this.options.webhookUrl, alert, { headers: { "Content-Type": "application/json" } })
+      .catch((error) => log.error("Drift webhook failed", { event: alert.event, source: alert.source, error }))
+  }
+}
+
+function getYield(series: Series): number {
+  return series.recent.length > 0 ? series.recent.filter(Boolean).length / series.recent.length : 0
+}
+
+let sharedMonitor: DriftMonitor | null = null
+
+export function getDriftMonitor(): DriftMonitor {
+  if (!sharedMonitor) {
+    sharedMonitor = new DriftMonitor(readDriftOptions())
+  }
+  return sharedMonitor
+}
+
+function readDriftOptions(): DriftOptions {
+  return {
+    window: readPositive("DRIFT_WINDOW", DEFAULT_OPTIONS.window),
+    baselineSamples: readPositive("DRIFT_BASELINE_SAMPLES", DEFAULT_OPTIONS.baselineSamples),
+    alertRatio: readPositive("DRIFT_ALERT_RATIO", DEFAULT_OPTIONS.alertRatio),
+    webhookUrl: process.env.DRIFT_WEBHOOK_URL || undefined,
+  }
+}
+
+function readPositive(name: string, fallback: number): number {
+  const value = Number.parseFloat(process.env[name] || "")
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
@@ -0,0 +1,151 @@
+import { getHttpClient, type HttpClient } from "./http-client"
+import type { SourceOutcome } from "./progress"
+import { getUpstreamUrl } from "./upstreams"
+
+export type ReadinessStatus = "ready" | "degraded" | "unavailable"
+
+export interface ProbeResult {
+  ok: boolean
+  latencyMs: number
+  message?: string
+}
+
+export interface DependencyCheck {
+  configured: boolean
+  // Only present when the caller asked for probes and the dependency is configured
+  probe?: ProbeResult
+}
+
+export interface SourceErrorRecord {
+  outcome: SourceOutcome
+  message?: string
+  at: string
+}
+
+export interface SourceHealth {
+  lastSuccessAt?: string
+  lastError?: SourceErrorRecord
+  // The last lookup against this source failed
+  failing: boolean
+}
+
+export interface ReadinessReport {
+  status: ReadinessStatus
+  service: string
+  version: string
+  timestamp: string
+  dependencies: Record<string, DependencyCheck>
+  sources: Record<string, SourceHealth>
+}
+
+interface Dependency {
+  configured: () => boolean
+  probe: (http: HttpClient) => Promise<unknown>
+}
+
+const SERVICE_NAME = "Content Research Microservice"
+const SERVICE_VERSION = "1.0.0"
+const PROBE_TIMEOUT_MS = 5000
+const PROBE_OPTIONS = { timeout: PROBE_TIMEOUT_MS, retry: { maxAttempts: 1 } }
+
+// The cheapest authenticated call each upstream offers
+const DEPENDENCIES: Record<string, Dependency> = {
+  tmdb: {
+    configured: () => Boolean(process.env.TMDB_API_KEY),
+    probe: (http) =>
+      http.getJson(`${getUpstreamUrl("tmdb")}/configuration?api_key=${process.env.TMDB_API_KEY}`, PROBE_OPTIONS),
+  },
+  omdb: {
+    configured: () => Boolean(process.env.OMDB_API_KEY),
+    probe: (http) =>
+      http.getJson(`${getUpstreamUrl("omdb")}/?apikey=${process.env.OMDB_API_KEY}&i=tt0133093`, PROBE_OPTIONS),
+  },
+  spotify: {
+    configured: () => Boolean(process.env.SPOTIFY_CLIENT_ID && process.env.SPOTIFY_CLIENT_SECRET),
+    probe: (http) =>
+      http.post(`${getUpstreamUrl("spotifyAccounts")}/api/token`, "grant_type=client_credentials", {
+        ...PROBE_OPTIONS,
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Authorization: `Basic ${Buffer.from(`${process.env.SPOTIFY_CLIENT_ID}:${process.env.SPOTIFY_CLIENT_SECRET}`).toString("base64")}`,
+        },
+      }),
+  },
+  googleBooks: {
+    configured: () => Boolean(process.env.GOOGLE_BOOKS_API_KEY),
+    probe: (http) =>
+      http.getJson(
+        `${getUpstreamUrl("googleBooks")}/volumes?q=isbn:9780141439518&maxResults=1&key=${process.env.GOOGLE_BOOKS_API_KEY}`,
+        PROBE_OPTIONS,
+      ),
+  },
+  proxy: {
+    configured: () => Boolean(process.env.PROXYSCRAPE_API_URL),
+    probe: (http) => http.get(process.env.PROXYSCRAPE_API_URL as string, PROBE_OPTIONS),
+  },
+}
+
+const sourceHealth = new Map<string, SourceHealth>()
+
+// Fed from every finished source lookup, so health reflects real traffic without probing
+export function recordSourceOutcome(source: string, outcome: SourceOutcome, message?: string): void {
+  if (outcome === "skipped" || outcome === "cached") return
+
+  const health = sourceHealth.get(source) || { failing: false }
+  const at = new Date().toISOString()
+  if (outcome === "error" || outcome === "rate_limited") {
+    health.lastError = { outcome, message, at }
+    health.failing = true
+  } else {
+    health.lastSuccessAt = at
+    health.failing = false
+  }
+  sourceHealth.set(source, health)
+}
+
+// Without probes the status only reflects failures seen in real lookups; with probes, a pod whose every configured
+// upstream fails is reported unavailable, since that usually means its own network is broken
+export async function getReadinessReport(
+  options: { probe?: boolean } = {},
+  http: HttpClient = getHttpClient(),
+): Promise<ReadinessReport> {
+  const entries = await Promise.all(
+    Object.entries(DEPENDENCIES).map(async ([name, dependency]): Promise<[string, DependencyCheck]> => {
+      const configured = dependency.configured()
+      if (!configured || !options.probe) return [name, { configured }]
+      return [name, { configured, probe: await runProbe(dependency, http) }]
+    }),
+  )
+  const dependencies = Object.fromEntries(entries)
+  const sources = Object.fromEntries([...sourceHealth].map(([source, health]) => [source, { ...health }]))
+
+  return {
+    status: getStatus(Object.values(dependencies), Object.values(sources)),
+    service: SERVICE_NAME,
+    version: SERVICE_VERSION,
+    timestamp: new Date().toISOString(),
+    dependencies,
+    sources,
+  }
+}
+
+async function runProbe(dependency: Dependency, http: HttpClient): Promise<ProbeResult> {
+  const startedAt = Date.now()
+  try {
+    await dependency.probe(http)
+    return { ok: true, latencyMs: Date.now() - startedAt }
+  } catch (error) {
+    return {
+      ok: false,
+      latencyMs: Date.now() - startedAt,
+      message: error instanceof Error ? error.message : "Unknown error",
+    }
+  }
+}
+
+function getStatus(dependencies: DependencyCheck[], sources: SourceHealth[]): ReadinessStatus {
+  const probes = dependencies.flatMap((dependency) => (dependency.probe ? [dependency.probe] : []))
+  if (probes.length > 0 && probes.every((probe) => !probe.ok)) return "unavailable"
+  if (probes.some((probe) => !probe.ok) || sources.some((source) => source.failing)) return "degraded"
+  return "ready"
+}
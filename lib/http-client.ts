@@ -0,0 +1,277 @@
+import axios, { type AxiosAdapter, type AxiosRequestConfig, type AxiosResponse } from "axios"
+import { getFixtureAdapterFromEnv } from "./http-fixtures"
+import { logger, redactUrl } from "./logger"
+import { proxyRequests, upstreamRequestDuration, upstreamRequests } from "./metrics"
+
+const log = logger.child({ component: "http-client" })
+
+export interface RetryPolicy {
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+  retryOnStatus: number[]
+}
+
+export interface HttpClientOptions {
+  defaultTimeout?: number
+  // Keyed by hostname suffix, e.g. "justwatch.com" also covers "www.justwatch.com"
+  hostTimeouts?: Record<string, number>
+  retry?: Partial<RetryPolicy>
+  userAgents?: string[]
+  proxyListUrl?: string
+  // Replaces axios' network adapter, e.g. with the record/replay adapter from http-fixtures
+  adapter?: AxiosAdapter
+}
+
+export interface HttpRequestOptions extends AxiosRequestConfig {
+  // Route retries through the proxy pool (first attempt always goes direct)
+  useProxy?: boolean
+  retry?: Partial<RetryPolicy>
+}
+
+const DEFAULT_USER_AGENTS = [
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:121.0) Gecko/20100101 Firefox/121.0",
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Safari/605.1.15",
+  "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+]
+
+const DEFAULT_HOST_TIMEOUTS: Record<string, number> = {
+  "api.themoviedb.org": 10000,
+  "omdbapi.com": 10000,
+  "api.spotify.com": 10000,
+  "accounts.spotify.com": 10000,
+  "googleapis.com": 10000,
+  "itunes.apple.com": 10000,
+  "google.com": 10000,
+  "genius.com": 10000,
+  "azlyrics.com": 8000,
+  "justwatch.com": 15000,
+  "themoviedb.org": 15000,
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 10000,
+  // 403 is how most storefronts and JustWatch signal a block, so it is worth another go through a proxy
+  retryOnStatus: [403, 408, 429, 500, 502, 503, 504],
+}
+
+const HTML_ACCEPT = "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8"
+const JSON_ACCEPT = "application/json, text/plain, */*"
+
+export class HttpClient {
+  private readonly defaultTimeout: number
+  private readonly hostTimeouts: Record<string, number>
+  private readonly retryPolicy: RetryPolicy
+  private readonly userAgents: string[]
+  private readonly proxyListUrl?: string
+  private readonly adapter?: AxiosAdapter
+  private proxyList: string[] = []
+  private proxiesLoaded: Promise<void> | null = null
+  private currentProxyIndex = 0
+  private currentUserAgentIndex = 0
+
+  constructor(options: HttpClientOptions = {}) {
+    this.defaultTimeout = options.defaultTimeout ?? 15000
+    this.hostTimeouts = { ...DEFAULT_HOST_TIMEOUTS, ...options.hostTimeouts }
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry }
+    this.userAgents = options.userAgents?.length ? options.userAgents : DEFAULT_USER_AGENTS
+    this.proxyListUrl = options.proxyListUrl
+    this.adapter = options.adapter
+  }
+
+  // Browser-like GET for HTML pages; retries go through the proxy pool
+  async get<T = any>(url: string, options: HttpRequestOptions = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({
+      useProxy: true,
+      ...options,
+      url,
+      method: "GET",
+      headers: { Accept: HTML_ACCEPT, ...options.headers },
+    })
+  }
+
+  // GET against a JSON API; these are keyed requests so they never leave through a proxy
+  async getJson<T = any>(url: string, options: HttpRequestOptions = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({
+      useProxy: false,
+      ...options,
+      url,
+      method: "GET",
+      headers: { Accept: JSON_ACCEPT, ...options.headers },
+    })
+  }
+
+  // Not retried unless the caller passes a `retry` policy, since repeating a non-idempotent request can repeat its
+  // side effects
+  async post<T = any>(url: string, data?: any, options: HttpRequestOptions = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ useProxy: false, retry: { maxAttempts: 1 }, ...options, url, method: "POST", data })
+  }
+
+  async head<T = any>(url: string, options: HttpRequestOptions = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ useProxy: false, retry: { maxAttempts: 1 }, ...options, url, method: "HEAD" })
+  }
+
+  async request<T = any>(options: HttpRequestOptions & { url: string }): Promise<AxiosResponse<T>> {
+    const { useProxy, retry, ...config } = options
+    const policy = { ...this.retryPolicy, ...retry }
+    let lastError: any
+
+    for (let attempt = 0; attempt < policy.maxAttempts; attempt++) {
+      const requestConfig: AxiosRequestConfig = {
+        ...config,
+        timeout: config.timeout ?? this.getTimeoutForUrl(config.url as string),
+        adapter: config.adapter ?? this.adapter,
+        headers: {
+          "User-Agent": this.getNextUserAgent(),
+          "Accept-Language": "en-US,en;q=0.9",
+          "Cache-Control": "no-cache",
+          ...config.headers,
+        },
+      }
+
+      if (useProxy && attempt > 0) {
+        const proxy = await this.getNextProxy()
+        if (proxy) {
+          const [host, port] = proxy.split(":")
+          requestConfig.proxy = { host, port: Number.parseInt(port), protocol: "http" }
+          log.debug("Using proxy", { proxy })
+        }
+      }
+
+      const startedAt = Date.now()
+      try {
+        const response = await axios.request<T>(requestConfig)
+        this.recordAttempt(config.url, startedAt, response.status, Boolean(requestConfig.proxy))
+        return response
+      } catch (error: any) {
+        this.recordAttempt(config.url, startedAt, error?.response?.status, Boolean(requestConfig.proxy))
+        lastError = error
+        if (!this.isRetryable(error, policy) || attempt === policy.maxAttempts - 1) {
+          break
+        }
+
+        const delay = this.getRetryDelay(error, attempt, policy)
+        log.warn("Request failed, retrying", {
+          url: redactUrl(config.url as string),
+          attempt: attempt + 1,
+          delayMs: delay,
+          error,
+        })
+        await new Promise((resolve) => setTimeout(resolve, delay))
+      }
+    }
+
+    throw lastError
+  }
+
+  getTimeoutForUrl(url: string): number {
+    let hostname: string
+    try {
+      hostname = new URL(url).hostname
+    } catch {
+      return this.defaultTimeout
+    }
+
+    // Longest matching suffix wins so "api.themoviedb.org" beats "themoviedb.org"
+    let bestMatch = ""
+    for (const host of Object.keys(this.hostTimeouts)) {
+      if ((hostname === host || hostname.endsWith(`.${host}`)) && host.length > bestMatch.length) {
+        bestMatch = host
+      }
+    }
+
+    return bestMatch ? this.hostTimeouts[bestMatch] : this.defaultTimeout
+  }
+
+  private recordAttempt(url: string, startedAt: number, status: number | undefined, proxied: boolean): void {
+    const host = getHost(url)
+    upstreamRequests.inc({ host, status: status ?? "error" })
+    upstreamRequestDuration.observe({ host }, (Date.now() - startedAt) / 1000)
+    if (proxied) {
+      proxyRequests.inc({ result: status !== undefined && status < 400 ? "success" : "failure" })
+    }
+  }
+
+  private isRetryable(error: any, policy: RetryPolicy): boolean {
+    const status = error?.response?.status
+    // No response means a network failure or timeout
+    if (!status) return true
+    return policy.retryOnStatus.includes(status)
+  }
+
+  private getRetryDelay(error: any, attempt: number, policy: RetryPolicy): number {
+    const retryAfter = Number.parseInt(error?.response?.headers?.["retry-after"])
+    if (!Number.isNaN(retryAfter)) {
+      return Math.min(retryAfter * 1000, policy.maxDelayMs)
+    }
+
+    const backoff = policy.baseDelayMs * 2 ** attempt
+    const jitter = Math.random() * policy.baseDelayMs
+    return Math.round(Math.min(backoff + jitter, policy.maxDelayMs))
+  }
+
+  private getNextUserAgent(): string {
+    const userAgent = this.userAgents[this.currentUserAgentIndex]
+    this.currentUserAgentIndex = (this.currentUserAgentIndex + 1) % this.userAgents.length
+    return userAgent
+  }
+
+  private async getNextProxy(): Promise<string | null> {
+    await this.loadProxies()
+    if (this.proxyList.length === 0) return null
+
+    const proxy = this.proxyList[this.currentProxyIndex]
+    this.currentProxyIndex = (this.currentProxyIndex + 1) % this.proxyList.length
+    return proxy
+  }
+
+  private loadProxies(): Promise<void> {
+    if (!this.proxiesLoaded) {
+      this.proxiesLoaded = this.fetchProxyList()
+    }
+    return this.proxiesLoaded
+  }
+
+  private async fetchProxyList(): Promise<void> {
+    if (!this.proxyListUrl) return
+
+    try {
+      log.debug("Fetching proxy list from ProxyScrape")
+      const response = await axios.get(this.proxyListUrl, { timeout: 10000, adapter: this.adapter })
+
+      if (typeof response.data === "string") {
+        this.proxyList = response.data
+          .split("\n")
+          .map((proxy: string) => proxy.trim())
+          .filter(Boolean)
+        log.info("Loaded proxy list", { count: this.proxyList.length })
+      }
+    } catch (error) {
+      log.warn("Failed to load proxies, continuing without proxy support", { error })
+    }
+  }
+}
+
+let sharedClient: HttpClient | null = null
+
+export function getHttpClient(): HttpClient {
+  if (!sharedClient) {
+    sharedClient = new HttpClient({
+      proxyListUrl: process.env.PROXYSCRAPE_API_URL,
+      adapter: getFixtureAdapterFromEnv(),
+    })
+  }
+  return sharedClient
+}
+
+function getHost(url: string): string {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return "unknown"
+  }
+}
@@ -0,0 +1,140 @@
+import axios, { AxiosError, type AxiosAdapter, type AxiosResponse, type InternalAxiosRequestConfig } from "axios"
+import { createHash } from "crypto"
+import { mkdirSync, readFileSync, writeFileSync } from "fs"
+import path from "path"
+import { logger, redactUrl } from "./logger"
+
+export type FixtureMode = "record" | "replay"
+
+export interface HttpFixture {
+  request: {
+    method: string
+    // Credentials are redacted, so fixtures can be committed and replayed without API keys
+    url: string
+    body?: string
+  }
+  response: {
+    status: number
+    statusText: string
+    headers: Record<string, string>
+    // Raw body as received; axios parses JSON after the adapter, on replay as on a live call
+    data: unknown
+  }
+}
+
+const RECORDED_HEADERS = ["content-type", "retry-after"]
+
+const log = logger.child({ component: "http-fixtures" })
+
+// Wraps the default axios adapter: "record" performs each request and writes the response to `dir`, "replay" answers
+// every request from `dir` and fails any request that was never recorded, so a replayed run never touches the network
+export function createFixtureAdapter(mode: FixtureMode, dir: string): AxiosAdapter {
+  const liveAdapter = axios.getAdapter(axios.defaults.adapter)
+
+  return async (config) => {
+    const request = describeRequest(config)
+    const file = path.join(dir, getFixturePath(request))
+
+    if (mode === "replay") {
+      return replay(config, readFixture(file, request))
+    }
+
+    try {
+      const response = await liveAdapter(config)
+      saveFixture(file, request, response)
+      return response
+    } catch (error) {
+      if (error instanceof AxiosError && error.response) {
+        saveFixture(file, request, error.response)
+      }
+      throw error
+    }
+  }
+}
+
+export function getFixtureAdapterFromEnv(): AxiosAdapter | undefined {
+  const mode = process.env.HTTP_FIXTURES_MODE
+  if (mode !== "record" && mode !== "replay") return undefined
+
+  const dir = process.env.HTTP_FIXTURES_DIR || path.join(process.cwd(), "fixtures", "http")
+  log.info("Using HTTP fixtures", { mode, dir })
+  return createFixtureAdapter(mode, dir)
+}
+
+function describeRequest(config: InternalAxiosRequestConfig): HttpFixture["request"] {
+  const url = axios.getUri(config)
+  const body = typeof config.data === "string" ? config.data : config.data ? JSON.stringify(config.data) : undefined
+  return { method: (config.method || "get").toUpperCase(), url: redactUrl(url), body }
+}
+
+// e.g. api.themoviedb.org/GET-3f2a9c….json, so a host's fixtures sit together and can be refreshed on their own
+function getFixturePath(request: HttpFixture["request"]): string {
+  const hash = createHash("sha256")
+    .update(`${request.method} ${request.url} ${request.body ?? ""}`)
+    .digest("hex")
+    .slice(0, 16)
+  let host = "unknown-host"
+  try {
+    host = new URL(request.url).hostname
+  } catch {}
+  return path.join(host, `${request.method}-${hash}.json`)
+}
+
+function readFixture(file: string, request: HttpFixture["request"]): HttpFixture {
+  try {
+    return JSON.parse(readFileSync(file, "utf8"))
+  } catch {
+    throw new Error(`No recorded fixture for ${request.method} ${request.url} (expected ${file})`)
+  }
+}
+
+function saveFixture(file: string, request: HttpFixture["request"], response: AxiosResponse): void {
+  const fixture: HttpFixture = {
+    request,
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers: pickHeaders(response.headers || {}),
+      data: response.data,
+    },
+  }
+
+  try {
+    mkdirSync(path.dirname(file), { recursive: true })
+    writeFileSync(file, JSON.stringify(fixture, null, 2))
+    log.debug("Recorded HTTP fixture", { method: request.method, url: request.url, status: response.status, file })
+  } catch (error) {
+    log.error("Could not write HTTP fixture", { file, error })
+  }
+}
+
+// Only what the scrapers and retry logic read; cookies and tracing headers would just churn the fixtures
+function pickHeaders(headers: Record<string, any>): Record<string, string> {
+  const picked: Record<string, string> = {}
+  for (const name of RECORDED_HEADERS) {
+    if (headers[name] !== undefined) picked[name] = String(headers[name])
+  }
+  return picked
+}
+
+function replay(config: InternalAxiosRequestConfig, fixture: HttpFixture): AxiosResponse {
+  const response: AxiosResponse = {
+    status: fixture.response.status,
+    statusText: fixture.response.statusText,
+    headers: fixture.response.headers,
+    data: fixture.response.data,
+    config,
+  }
+
+  // Mirrors axios' own status check, so replayed 404s and 429s fail the way live ones do
+  if (config.validateStatus && !config.validateStatus(response.status)) {
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      null,
+      response,
+    )
+  }
+  return response
+}
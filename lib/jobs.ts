@@ -0,0 +1,218 @@
+import { randomUUID } from "crypto"
+import { assertPublicCallbackUrl, getCallbackAgents } from "./callback-url"
+import { getHttpClient, type HttpClient } from "./http-client"
+import { getLogContext, logger, runWithLogContext } from "./logger"
+import { getProgressKey, SourceReporter, type ProgressEvent, type SourceReport, type SourceStatus } from "./progress"
+import { RateLimiter } from "./rate-limiter"
+import { runResearch, type ResearchRequestMap, type ResearchType } from "./research"
+
+const log = logger.child({ component: "jobs" })
+
+export type JobStatus = "queued" | "running" | "completed" | "failed"
+
+export interface SourceProgress {
+  source: string
+  region?: string
+  status: SourceStatus
+  updatedAt: string
+}
+
+export interface ResearchJob {
+  id: string
+  type: ResearchType
+  status: JobStatus
+  request: ResearchRequestMap[ResearchType]
+  // Keyed by source, or "source.REGION" for per-region lookups
+  progress: Record<string, SourceProgress>
+  result?: unknown
+  error?: string
+  // Final outcome of each source, set when the job finishes
+  sources?: SourceReport[]
+  callbackUrl?: string
+  callback?: {
+    delivered: boolean
+    attemptedAt: string
+    error?: string
+  }
+  createdAt: string
+  startedAt?: string
+  completedAt?: string
+}
+
+export interface JobStore {
+  get(id: string): Promise<ResearchJob | undefined>
+  save(job: ResearchJob): Promise<void>
+}
+
+export class MemoryJobStore implements JobStore {
+  private jobs = new Map<string, ResearchJob>()
+
+  constructor(
+    private readonly retentionMs = 24 * 60 * 60 * 1000,
+    private readonly maxJobs = 1000,
+  ) {}
+
+  async get(id: string): Promise<ResearchJob | undefined> {
+    return this.jobs.get(id)
+  }
+
+  async save(job: ResearchJob): Promise<void> {
+    this.jobs.set(job.id, job)
+    this.evict()
+  }
+
+  // Only finished jobs are evicted, oldest first, so a job is never lost while a poller is still waiting on it; the
+  // store can exceed maxJobs while more than that many are queued or running
+  private evict(): void {
+    const cutoff = Date.now() - this.retentionMs
+    for (const [id, job] of this.jobs) {
+      const finished = job.status === "completed" || job.status === "failed"
+      if (finished && (this.jobs.size > this.maxJobs || Date.parse(job.completedAt || job.createdAt) < cutoff)) {
+        this.jobs.delete(id)
+      }
+    }
+  }
+}
+
+export class JobQueue {
+  private readonly limiter: RateLimiter
+  private readonly pendingWrites = new Map<string, Promise<void>>()
+
+  constructor(
+    private readonly store: JobStore,
+    private readonly http: HttpClient = getHttpClient(),
+    concurrency = 2,
+  ) {
+    this.limiter = new RateLimiter({ concurrency, minIntervalMs: 0 })
+  }
+
+  async enqueue<T extends ResearchType>(
+    type: T,
+    request: ResearchRequestMap[T],
+    callbackUrl?: string,
+  ): Promise<ResearchJob> {
+    const job: ResearchJob = {
+      id: randomUUID(),
+      type,
+      status: "queued",
+      request,
+      progress: {},
+      callbackUrl,
+      createdAt: new Date().toISOString(),
+    }
+
+    await this.store.save(job)
+    log.info("Queued research job", { jobId: job.id, type })
+
+    // The job outlives the request, so it keeps the request's correlation ID and client explicitly
+    const logContext = getLogContext() || { correlationId: job.id }
+    this.limiter
+      .schedule(() => runWithLogContext(logContext, () => this.run(job)))
+      .catch((error) => log.error("Research job crashed", { jobId: job.id, error }))
+
+    return job
+  }
+
+  get(id: string): Promise<ResearchJob | undefined> {
+    return this.store.get(id)
+  }
+
+  private async run(job: ResearchJob): Promise<void> {
+    job.status = "running"
+    job.startedAt = new Date().toISOString()
+    this.persist(job)
+
+    const sources = new SourceReporter((event) => this.recordProgress(job, event))
+    try {
+      job.result = await runResearch(job.type, job.request, sources.listener)
+      job.status = "completed"
+    } catch (error) {
+      job.status = "failed"
+      job.error = error instanceof Error ? error.message : "Unknown error"
+    }
+    job.sources = sources.toJSON()
+
+    job.completedAt = new Date().toISOString()
+    log.info("Research job finished", { jobId: job.id, status: job.status })
+    await this.persist(job)
+
+    if (job.callbackUrl) {
+      await this.deliverCallback(job)
+      await this.persist(job)
+    }
+  }
+
+  private recordProgress(job: ResearchJob, event: ProgressEvent): void {
+    job.progress[getProgressKey(event)] = {
+      source: event.source,
+      region: event.region,
+      status: event.status,
+      updatedAt: new Date().toISOString(),
+    }
+    this.persist(job)
+  }
+
+  private async deliverCallback(job: ResearchJob): Promise<void> {
+    const attemptedAt = new Date().toISOString()
+    try {
+      await assertPublicCallbackUrl(job.callbackUrl as string)
+      // Sent once, without retries; the key lets a receiver drop a delivery it has already seen. Redirects are not
+      // followed and the agents refuse non-public addresses at connect time, so neither a redirect nor a DNS change
+      // after the check can point the delivery at an internal address
+      await this.http.post(job.callbackUrl as string, toJobPayload(job), {
+        ...getCallbackAgents(),
+        maxRedirects: 0,
+        retry: { maxAttempts: 1 },
+        headers: { "Content-Type": "application/json", "Idempotency-Key": job.id },
+      })
+      job.callback = { delivered: true, attemptedAt }
+    } catch (error) {
+      log.error("Research job callback failed", { jobId: job.id, error })
+      job.callback = { delivered: false, attemptedAt, error: error instanceof Error ? error.message : "Unknown error" }
+    }
+  }
+
+  // Writes are chained per job so a slow store never applies an older snapshot over a newer one
+  private persist(job: ResearchJob): Promise<void> {
+    const snapshot: ResearchJob = { ...job, progress: { ...job.progress } }
+    const previous = this.pendingWrites.get(job.id) || Promise.resolve()
+    const write = previous
+      .then(() => this.store.save(snapshot))
+      .catch((error) => log.error("Failed to save research job", { jobId: job.id, error }))
+
+    this.pendingWrites.set(job.id, write)
+    write.then(() => {
+      if (this.pendingWrites.get(job.id) === write) this.pendingWrites.delete(job.id)
+    })
+    return write
+  }
+}
+
+// Shape returned by GET /api/jobs/{id} and POSTed to callback URLs
+export function toJobPayload(job: ResearchJob) {
+  const { callbackUrl, ...payload } = job
+  return payload
+}
+
+let sharedQueue: JobQueue | null = null
+
+export function getJobQueue(): JobQueue {
+  if (!sharedQueue) {
+    const retentionHours = Number.parseFloat(process.env.JOB_RETENTION_HOURS || "")
+    const store = new MemoryJobStore(
+      Number.isFinite(retentionHours) && retentionHours > 0 ? retentionHours * 60 * 60 * 1000 : undefined,
+    )
+    sharedQueue = new JobQueue(store, getHttpClient(), readJobConcurrency())
+  }
+  return sharedQueue
+}
+
+// Lets a deployment back jobs with a shared store at startup
+export function setJobStore(store: JobStore): void {
+  sharedQueue = new JobQueue(store, getHttpClient(), readJobConcurrency())
+}
+
+function readJobConcurrency(): number {
+  const concurrency = Number.parseInt(process.env.JOB_CONCURRENCY || "")
+  return Number.isFinite(concurrency) && concurrency > 0 ? concurrency : 2
+}
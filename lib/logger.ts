@@ -0,0 +1,125 @@
+import { AsyncLocalStorage } from "async_hooks"
+import { randomUUID } from "crypto"
+
+export type LogLevel = "debug" | "info" | "warn" | "error"
+export type LogFields = Record<string, unknown>
+
+export interface LogContext {
+  correlationId: string
+  // Id of the API client the request authenticated as
+  clientId?: string
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+const CORRELATION_HEADERS = ["x-correlation-id", "x-request-id"]
+// Query parameters that carry credentials in upstream URLs
+const SECRET_PARAMS = /([?&](?:api_key|apikey|key|client_secret|token)=)[^&]*/gi
+
+const context = new AsyncLocalStorage<LogContext>()
+
+export class Logger {
+  constructor(
+    private readonly bindings: LogFields = {},
+    private readonly minLevel: LogLevel = readLevelFromEnv(),
+    private readonly format: "json" | "pretty" = process.env.LOG_FORMAT === "pretty" ? "pretty" : "json",
+  ) {}
+
+  // Adds fields to every entry written through the returned logger, e.g. { component: "movie-scraper" }
+  child(bindings: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...bindings }, this.minLevel, this.format)
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write("debug", message, fields)
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write("info", message, fields)
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write("warn", message, fields)
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write("error", message, fields)
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[this.minLevel]) return
+
+    const context = getLogContext()
+    const entry: LogFields = {
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      correlationId: context?.correlationId,
+      client: context?.clientId,
+      ...this.bindings,
+    }
+    for (const [name, value] of Object.entries(fields)) {
+      entry[name] = value instanceof Error || name === "error" ? serializeError(value) : value
+    }
+
+    const line = this.format === "pretty" ? formatPretty(entry) : safeStringify(entry)
+    if (level === "error") console.error(line)
+    else if (level === "warn") console.warn(line)
+    else console.log(line)
+  }
+}
+
+export const logger = new Logger()
+
+export function getLogContext(): LogContext | undefined {
+  return context.getStore()
+}
+
+export function runWithLogContext<T>(logContext: LogContext, callback: () => T): T {
+  return context.run(logContext, callback)
+}
+
+// Reuses the caller's ID from the request headers, or starts a new one
+export function resolveCorrelationId(request: Request): string {
+  const provided = CORRELATION_HEADERS.map((name) => request.headers.get(name)).find(
+    (value) => value && value.length <= 128,
+  )
+  return provided || randomUUID()
+}
+
+// Keeps upstream URLs in logs without their API keys
+export function redactUrl(url: string): string {
+  return url.replace(SECRET_PARAMS, "$1[redacted]")
+}
+
+// Axios errors carry the whole request and response; only the parts worth filtering on are kept
+function serializeError(error: any): unknown {
+  if (!(error instanceof Error)) return error
+
+  const serialized: LogFields = { name: error.name, message: redactUrl(error.message) }
+  const httpError = error as any
+  if (httpError.response?.status) serialized.status = httpError.response.status
+  if (httpError.config?.url) serialized.url = redactUrl(httpError.config.url)
+  if (httpError.code) serialized.code = httpError.code
+  if (!httpError.response && !httpError.code) serialized.stack = error.stack
+  return serialized
+}
+
+function safeStringify(entry: LogFields): string {
+  try {
+    return JSON.stringify(entry)
+  } catch {
+    return JSON.stringify({ time: entry.time, level: entry.level, msg: entry.msg, correlationId: entry.correlationId })
+  }
+}
+
+function formatPretty(entry: LogFields): string {
+  const { time, level, msg, correlationId, ...rest } = entry
+  const id = correlationId ? ` [${String(correlationId).slice(0, 8)}]` : ""
+  const extra = Object.keys(rest).length > 0 ? ` ${safeStringify(rest)}` : ""
+  return `${time} ${String(level).toUpperCase()}${id} ${msg}${extra}`
+}
+
+function readLevelFromEnv(): LogLevel {
+  const level = (process.env.LOG_LEVEL || "").toLowerCase()
+  return level in LEVEL_ORDER ? (level as LogLevel) : "info"
+}
@@ -0,0 +1,222 @@
+import { logger } from "./logger"
+import type { MatchAlternative, MatchInfo } from "./types"
+
+export interface MatchQuery {
+  title: string
+  year?: number
+  // People and other names from the request, e.g. director and cast, creator and network, artist and album
+  names?: string[]
+}
+
+export interface MatchCandidate<T = unknown> {
+  id: string
+  title: string
+  // Original-language or alternative titles, any of which may match
+  altTitles?: string[]
+  year?: number
+  // Undefined when the names were not fetched for this candidate, which scores as neutral
+  names?: string[]
+  value: T
+}
+
+export interface MatchSelection<T> {
+  // Only set when the best candidate clears the confidence threshold
+  chosen: MatchCandidate<T> | null
+  match: MatchInfo
+}
+
+export interface ResolvedMatch<T = undefined> {
+  // Null when nothing was found or the best candidate was too uncertain to use
+  id: string | null
+  match: MatchInfo
+  value?: T
+}
+
+export interface MatchOptions {
+  threshold?: number
+  // Penalise karaoke, cover and similar versions the request did not ask for
+  penalizeVariants?: boolean
+}
+
+const DEFAULT_THRESHOLD = readThresholdFromEnv()
+const MAX_ALTERNATIVES = 3
+// Below this gap to the runner-up the best candidate is not clearly better, so confidence is scaled down
+const CLEAR_MARGIN = 0.1
+const VARIANT_PATTERN = /\b(karaoke|instrumental|cover|tribute|made famous|backing track|8-bit|lullaby)\b/i
+
+export function selectMatch<T>(
+  source: string,
+  query: MatchQuery,
+  candidates: MatchCandidate<T>[],
+  options: MatchOptions = {},
+): MatchSelection<T> {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD
+
+  if (candidates.length === 0) {
+    return { chosen: null, match: noMatch(source) }
+  }
+
+  const scored = candidates
+    .map((candidate, rank) => ({ candidate, score: scoreCandidate(query, candidate, rank, options) }))
+    .sort((a, b) => b.score - a.score)
+
+  const [best, runnerUp] = scored
+  const margin = runnerUp ? best.score - runnerUp.score : 1
+  const confidence = roundScore(best.score * Math.min(1, 0.5 + (0.5 * margin) / CLEAR_MARGIN))
+  const alternatives: MatchAlternative[] = scored.slice(1, MAX_ALTERNATIVES + 1).map(({ candidate, score }) => ({
+    id: candidate.id,
+    title: candidate.title,
+    year: candidate.year,
+    confidence: roundScore(score),
+  }))
+
+  if (confidence < threshold) {
+    logger.info("Ambiguous match", { source, title: query.title, confidence, threshold })
+    return {
+      chosen: null,
+      match: {
+        source,
+        status: "ambiguous",
+        confidence,
+        alternatives: [
+          // Alternatives all carry their raw candidate score; only the overall confidence is scaled by the margin
+          {
+            id: best.candidate.id,
+            title: best.candidate.title,
+            year: best.candidate.year,
+            confidence: roundScore(best.score),
+          },
+          ...alternatives,
+        ],
+      },
+    }
+  }
+
+  return {
+    chosen: best.candidate,
+    match: { source, status: "matched", confidence, id: best.candidate.id, alternatives },
+  }
+}
+
+// For lookups by external ID, where there is nothing to disambiguate
+export function exactMatch(source: string, id: string): MatchInfo {
+  return { source, status: "exact", confidence: 1, id, alternatives: [] }
+}
+
+export function noMatch(source: string): MatchInfo {
+  return { source, status: "not_found", confidence: 0, alternatives: [] }
+}
+
+export function scoreCandidate(
+  query: MatchQuery,
+  candidate: MatchCandidate,
+  rank = 0,
+  options: MatchOptions = {},
+): number {
+  const components: Array<[weight: number, score: number]> = []
+
+  const titles = [candidate.title, ...(candidate.altTitles || [])].filter(Boolean)
+  components.push([0.6, Math.max(0, ...titles.map((title) => titleSimilarity(query.title, title)))])
+
+  if (query.year) {
+    components.push([0.2, candidate.year ? yearScore(query.year, candidate.year) : 0.5])
+  }
+
+  const queryNames = (query.names || []).filter(Boolean)
+  if (queryNames.length > 0) {
+    components.push([0.25, candidate.names ? nameOverlap(queryNames, candidate.names) : 0.5])
+  }
+
+  const totalWeight = components.reduce((sum, [weight]) => sum + weight, 0)
+  let score = components.reduce((sum, [weight, value]) => sum + weight * value, 0) / totalWeight
+
+  if (options.penalizeVariants && VARIANT_PATTERN.test(candidate.title) && !VARIANT_PATTERN.test(query.title)) {
+    score *= 0.5
+  }
+
+  // Upstream relevance order only breaks near-ties
+  return Math.max(0, score - rank * 0.005)
+}
+
+export function titleSimilarity(a: string, b: string): number {
+  const left = normalizeTitle(a)
+  const right = normalizeTitle(b)
+  if (!left || !right) return 0
+  if (left === right) return 1
+
+  // "Song - Remastered 2011" or "Film (Director's Cut)" still count as the same title
+  const strippedRight = normalizeTitle(stripQualifiers(b))
+  if (strippedRight && strippedRight === left) return 0.95
+
+  return Math.max(diceCoefficient(left, right), strippedRight ? diceCoefficient(left, strippedRight) : 0)
+}
+
+export function parseYear(date: unknown): number | undefined {
+  const year = Number.parseInt(String(date ?? "").slice(0, 4))
+  return Number.isFinite(year) ? year : undefined
+}
+
+function yearScore(expected: number, actual: number): number {
+  // Release years routinely differ by one between festivals, regions and sources
+  const difference = Math.abs(expected - actual)
+  if (difference === 0) return 1
+  if (difference === 1) return 0.7
+  if (difference === 2) return 0.3
+  return 0
+}
+
+function nameOverlap(expected: string[], actual: string[]): number {
+  const matched = expected.filter((name) => actual.some((candidate) => titleSimilarity(name, candidate) >= 0.85))
+  return matched.length / expected.length
+}
+
+function normalizeTitle(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+}
+
+function stripQualifiers(value: string): string {
+  return value
+    .replace(/\s*[([].*?[)\]]/g, "")
+    .replace(/\s+-\s+.*$/, "")
+    .trim()
+}
+
+function diceCoefficient(a: string, b: string): number {
+  const bigrams = (value: string) => {
+    const compact = value.replace(/\s+/g, " ")
+    const result = new Map<string, number>()
+    for (let i = 0; i < compact.length - 1; i++) {
+      const bigram = compact.slice(i, i + 2)
+      result.set(bigram, (result.get(bigram) || 0) + 1)
+    }
+    return result
+  }
+
+  const left = bigrams(a)
+  const right = bigrams(b)
+  let overlap = 0
+  let total = 0
+
+  for (const count of left.values()) total += count
+  for (const count of right.values()) total += count
+  for (const [bigram, count] of left) {
+    overlap += Math.min(count, right.get(bigram) || 0)
+  }
+
+  return total === 0 ? 0 : (2 * overlap) / total
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 100) / 100
+}
+
+function readThresholdFromEnv(): number {
+  const threshold = Number.parseFloat(process.env.MATCH_CONFIDENCE_THRESHOLD || "")
+  return Number.isFinite(threshold) && threshold >= 0 && threshold <= 1 ? threshold : 0.6
+}
@@ -0,0 +1,199 @@
+import { readFileSync } from "fs"
+import { z } from "zod"
+import { logger } from "./logger"
+import { hasValue, type ProvenanceRecorder } from "./provenance"
+import type { ResearchType } from "./research"
+import type { FieldConflict, FieldPolicy, FieldProvenance, MergePolicy, MergePolicyOverride } from "./types"
+
+const first = (...sources: string[]): FieldPolicy => ({ sources, strategy: "first" })
+
+// Only fields that more than one source can fill are listed; the rest come from a single source
+export const DEFAULT_MERGE_POLICIES: Record<ResearchType, MergePolicy> = {
+  movie: {
+    rated: first("omdb", "tmdb"),
+    released: first("tmdb", "omdb"),
+    runtime: first("tmdb", "omdb"),
+    genres: first("tmdb", "omdb"),
+    director: first("tmdb", "omdb"),
+    writers: first("tmdb", "omdb"),
+    cast: first("tmdb", "omdb"),
+    plot: first("tmdb", "omdb"),
+    language: first("tmdb", "omdb"),
+    country: first("tmdb", "omdb"),
+  },
+  series: {
+    year: first("request", "tmdb"),
+  },
+  music: {
+    releaseYear: first("request", "spotify"),
+    genres: first("spotify", "request"),
+  },
+  book: {
+    author: first("request", "googleBooks"),
+    isbn: first("request", "googleBooks"),
+    publishedYear: first("request", "googleBooks"),
+    genres: first("googleBooks", "request"),
+  },
+}
+
+// Overrides may reorder or drop a field's sources and change its strategy, but not name fields or sources it lacks
+export function createMergePolicyOverrideSchema(type: ResearchType) {
+  const defaults = DEFAULT_MERGE_POLICIES[type]
+
+  return z
+    .record(
+      z
+        .object({
+          sources: z.array(z.string()).min(1).optional(),
+          strategy: z.enum(["first", "union"]).optional(),
+        })
+        .strict(),
+    )
+    .superRefine((override, ctx) => {
+      for (const [field, policy] of Object.entries(override)) {
+        const defaultPolicy = defaults[field]
+        if (!defaultPolicy) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [field],
+            message: `Not a merged field, expected one of ${Object.keys(defaults).join(", ")}`,
+          })
+          continue
+        }
+
+        for (const source of policy.sources || []) {
+          if (!defaultPolicy.sources.includes(source)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: [field, "sources"],
+              message: `Unknown source "${source}", expected one of ${defaultPolicy.sources.join(", ")}`,
+            })
+          }
+        }
+      }
+    })
+    .describe("Per-field source priority and strategy, overriding the configured merge policy")
+}
+
+// Defaults, then MERGE_POLICY_FILE, then the request's own overrides
+export function getMergePolicy(type: ResearchType, override?: MergePolicyOverride): MergePolicy {
+  const configured = getConfiguredOverrides()[type]
+  const policy: MergePolicy = {}
+
+  for (const [field, defaultPolicy] of Object.entries(DEFAULT_MERGE_POLICIES[type])) {
+    policy[field] = { ...defaultPolicy, ...configured?.[field], ...override?.[field] }
+  }
+
+  return policy
+}
+
+let configuredOverrides: Partial<Record<ResearchType, MergePolicyOverride>> | null = null
+
+function getConfiguredOverrides(): Partial<Record<ResearchType, MergePolicyOverride>> {
+  if (!configuredOverrides) {
+    configuredOverrides = loadConfiguredOverrides(process.env.MERGE_POLICY_FILE)
+  }
+  return configuredOverrides
+}
+
+function loadConfiguredOverrides(file?: string): Partial<Record<ResearchType, MergePolicyOverride>> {
+  if (!file) return {}
+
+  try {
+    const contents = JSON.parse(readFileSync(file, "utf8"))
+    const schema = z
+      .object({
+        movie: createMergePolicyOverrideSchema("movie"),
+        series: createMergePolicyOverrideSchema("series"),
+        music: createMergePolicyOverrideSchema("music"),
+        book: createMergePolicyOverrideSchema("book"),
+      })
+      .partial()
+      .strict()
+    const parsed = schema.safeParse(contents)
+    if (!parsed.success) {
+      logger.error("Ignoring invalid merge policy", { file, issues: parsed.error.issues })
+      return {}
+    }
+
+    logger.info("Loaded merge policy overrides", { file })
+    return parsed.data
+  } catch (error) {
+    logger.error("Could not read merge policy", { file, error })
+    return {}
+  }
+}
+
+// Picks or combines one field's per-source values according to the policy, recording provenance and disagreements
+export class FieldMerger {
+  private readonly conflicts: FieldConflict[] = []
+
+  constructor(
+    private readonly policy: MergePolicy,
+    private readonly sources: Record<string, FieldProvenance | null>,
+    private readonly provenance: ProvenanceRecorder,
+  ) {}
+
+  merge<T>(field: string, values: Record<string, T | null | undefined>): T | undefined {
+    const present = this.policy[field].sources.filter((source) => hasValue(values[source]))
+    if (present.length === 0) return undefined
+
+    const [chosen] = present
+    if (this.policy[field].strategy === "union" && present.every((source) => Array.isArray(values[source]))) {
+      this.record(field, chosen, present)
+      return unionByKey(present.flatMap((source) => values[source] as unknown[])) as T
+    }
+
+    if (new Set(present.map((source) => toComparable(values[source]))).size > 1) {
+      this.conflicts.push({
+        field,
+        chosen,
+        values: Object.fromEntries(present.map((source) => [source, values[source]])),
+      })
+    }
+
+    this.record(field, chosen)
+    return values[chosen] as T
+  }
+
+  getConflicts(): FieldConflict[] {
+    return [...this.conflicts]
+  }
+
+  private record(field: string, chosen: string, contributors?: string[]): void {
+    const source = this.sources[chosen]
+    if (!source) return
+
+    this.provenance.record(
+      field,
+      contributors && contributors.length > 1 ? { ...source, mergedFrom: contributors } : source,
+    )
+  }
+}
+
+function unionByKey(items: unknown[]): unknown[] {
+  const seen = new Set<string>()
+  return items.filter((item) => {
+    const key = getItemKey(item)
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+// People and companies are compared by name, since sources disagree on ids and extra details
+function getItemKey(item: any): string {
+  if (typeof item === "string") return normalizeText(item)
+  const name = item?.name ?? item?.person?.name
+  return typeof name === "string" ? normalizeText(name) : JSON.stringify(item)
+}
+
+function toComparable(value: unknown): string {
+  if (Array.isArray(value)) return [...new Set(value.map(getItemKey))].sort().join("|")
+  if (typeof value === "string") return normalizeText(value)
+  return JSON.stringify(value)
+}
+
+function normalizeText(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ")
+}
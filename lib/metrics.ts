@@ -0,0 +1,184 @@
+type Labels = Record<string, string | number | undefined>
+
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+const PLATFORM_COUNT_BUCKETS = [0, 1, 2, 3, 5, 8, 13, 21]
+
+interface Metric {
+  render(): string[]
+}
+
+export class Counter implements Metric {
+  private readonly values = new Map<string, number>()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+  ) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = formatLabels(labels)
+    this.values.set(key, (this.values.get(key) || 0) + value)
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values].map(([labels, value]) => `${this.name}${labels} ${value}`),
+    ]
+  }
+}
+
+export class Gauge implements Metric {
+  private readonly values = new Map<string, number>()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+  ) {}
+
+  set(labels: Labels, value: number): void {
+    this.values.set(formatLabels(labels), value)
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      ...[...this.values].map(([labels, value]) => `${this.name}${labels} ${value}`),
+    ]
+  }
+}
+
+export class Histogram implements Metric {
+  private readonly series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly buckets: number[] = DURATION_BUCKETS,
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels)
+    let series = this.series.get(key)
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.series.set(key, series)
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series.counts[index]++
+    })
+    series.sum += value
+    series.count++
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`]
+    for (const [key, { labels, counts, sum, count }] of this.series) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: bound })} ${counts[index]}`)
+      })
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`)
+      lines.push(`${this.name}_sum${key} ${sum}`)
+      lines.push(`${this.name}_count${key} ${count}`)
+    }
+    return lines
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = []
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help))
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help))
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets))
+  }
+
+  // Prometheus text exposition format, version 0.0.4
+  render(): string {
+    return this.metrics.flatMap((metric) => metric.render()).join("\n") + "\n"
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric)
+    return metric
+  }
+}
+
+export const metrics = new MetricsRegistry()
+
+export const httpRequests = metrics.counter(
+  "content_research_http_requests_total",
+  "API requests handled, by route, method, response status and API client",
+)
+export const httpRequestDuration = metrics.histogram(
+  "content_research_http_request_duration_seconds",
+  "Time to produce an API response, by route and method; streams are timed until their headers are sent",
+)
+export const sourceLookups = metrics.counter(
+  "content_research_source_lookups_total",
+  "Lookups against each research source, by source and outcome",
+)
+export const sourceLookupDuration = metrics.histogram(
+  "content_research_source_lookup_duration_seconds",
+  "Latency of each research source lookup, including cache hits",
+)
+export const upstreamRequests = metrics.counter(
+  "content_research_upstream_requests_total",
+  "Outgoing HTTP attempts, by host and response status (error when no response arrived)",
+)
+export const upstreamRequestDuration = metrics.histogram(
+  "content_research_upstream_request_duration_seconds",
+  "Latency of outgoing HTTP attempts, by host",
+)
+export const cacheLookups = metrics.counter(
+  "content_research_cache_lookups_total",
+  "Response cache lookups, by source and result (hit, stale or miss)",
+)
+export const proxyRequests = metrics.counter(
+  "content_research_proxy_requests_total",
+  "Outgoing HTTP attempts routed through a proxy, by result",
+)
+export const platformsFound = metrics.histogram(
+  "content_research_platforms_found",
+  "Platforms found per availability lookup, by research type and availability kind",
+  PLATFORM_COUNT_BUCKETS,
+)
+export const extractionYield = metrics.gauge(
+  "content_research_extraction_yield",
+  "Share of recent extractions that found something, by source and selector",
+)
+export const extractionBaselineYield = metrics.gauge(
+  "content_research_extraction_baseline_yield",
+  "Long-run share of extractions that found something, by source and selector",
+)
+export const scraperDriftAlerts = metrics.gauge(
+  "content_research_scraper_drift_alert",
+  "1 while a source's extraction yield is far below its baseline, by source and selector",
+)
+
+// Per region for movies and series, per lookup for music; book links are search URLs so they are not counted
+export function observePlatformsFound(type: string, availability: { streaming: unknown[]; purchase: unknown[] }): void {
+  platformsFound.observe({ type, kind: "streaming" }, availability.streaming.length)
+  platformsFound.observe({ type, kind: "purchase" }, availability.purchase.length)
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}="${escapeLabelValue(String(value))}"`)
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : ""
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")
+}
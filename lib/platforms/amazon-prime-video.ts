@@ -0,0 +1,87 @@
+import * as cheerio from "cheerio"
+import type { HttpClient } from "../http-client"
+import { logger } from "../logger"
+import { delay, findGoogleResultLink } from "./helpers"
+import type { PlatformAdapter, PlatformLookup } from "./types"
+
+async function resolveMovie(title: string, year: number | undefined, http: HttpClient): Promise<string | null> {
+  logger.debug("Scraping Amazon Prime", { title, year })
+
+  // Add delay to avoid rate limiting
+  await delay(1500)
+
+  const searchUrl = `https://www.amazon.com/s?k=${encodeURIComponent(`${title} ${year ?? ""}`.trim())}&i=prime-instant-video`
+
+  const response = await http.get(searchUrl)
+
+  const $ = cheerio.load(response.data)
+
+  // Look for product links in search results
+  let amazonASIN: string | null = null
+
+  $('a[href*="/dp/"], a[href*="/gp/video/detail/"]').each((i, element) => {
+    const href = $(element).attr("href")
+    const titleElement =
+      $(element).find('[data-cy="title-recipe-title"]').text() ||
+      $(element).closest('[data-component-type="s-search-result"]').find("h2 a span").text()
+
+    if (href && titleElement.toLowerCase().includes(title.toLowerCase())) {
+      const dpMatch = href.match(/\/dp\/([A-Z0-9]{10})/)
+      const videoMatch = href.match(/\/gp\/video\/detail\/([A-Z0-9]{10})/)
+
+      if (dpMatch) {
+        amazonASIN = dpMatch[1]
+        return false
+      } else if (videoMatch) {
+        amazonASIN = videoMatch[1]
+        return false
+      }
+    }
+  })
+
+  if (amazonASIN) {
+    logger.debug("Found Amazon ASIN", { asin: amazonASIN })
+    return `https://www.amazon.com/dp/${amazonASIN}`
+  }
+
+  try {
+    const googleSearchUrl = `https://www.google.com/search?q="${title}" ${year ?? ""} site:amazon.com/gp/video/detail`
+    const googleResponse = await http.get(googleSearchUrl)
+
+    const amazonMatch = googleResponse.data.match(/amazon\.com\/gp\/video\/detail\/([A-Z0-9]{10})/i)
+    if (amazonMatch) {
+      const amazonUrl = `https://www.amazon.com/gp/video/detail/${amazonMatch[1]}`
+      logger.debug("Found Amazon URL via Google", { url: amazonUrl })
+      return amazonUrl
+    }
+  } catch (e) {
+    logger.debug("Google fallback failed for Amazon")
+  }
+
+  logger.debug("Amazon Prime content not found", { title })
+  return null
+}
+
+export const amazonPrimeVideoAdapter: PlatformAdapter = {
+  id: "amazon-prime-video",
+  name: "Amazon Prime Video",
+  matchNames: ["amazon", "prime"],
+  kinds: ["movie", "series"],
+  domains: ["amazon.com", "primevideo.com"],
+  contentUrlPatterns: [
+    "amazon.com/dp/",
+    "amazon.com/gp/video/detail/",
+    "watch.amazon.com/detail",
+    "app.primevideo.com/detail",
+  ],
+  async resolveLink({ title, year, kind }: PlatformLookup, http: HttpClient) {
+    if (kind === "series") {
+      return findGoogleResultLink(
+        http,
+        `site:amazon.com "${title}" prime video tv series`,
+        'a[href*="amazon.com/"][href*="/dp/"], a[href*="amazon.com/gp/video"]',
+      )
+    }
+    return resolveMovie(title, year, http)
+  },
+}
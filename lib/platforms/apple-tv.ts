@@ -0,0 +1,64 @@
+import * as cheerio from "cheerio"
+import type { HttpClient } from "../http-client"
+import { logger } from "../logger"
+import { findGoogleResultLink } from "./helpers"
+import type { PlatformAdapter, PlatformLookup } from "./types"
+
+async function resolveMovie(title: string, year: number | undefined, http: HttpClient): Promise<string | null> {
+  logger.debug("Scraping Apple TV", { title, year })
+
+  const searchUrl = `https://tv.apple.com/us/search?term=${encodeURIComponent(title)}`
+
+  const response = await http.get(searchUrl)
+
+  const $ = cheerio.load(response.data)
+
+  // Look for Apple TV movie links
+  let appleUrl: string | null = null
+
+  $('a[href*="/movie/"]').each((i, element) => {
+    const href = $(element).attr("href")
+    const titleText = $(element).text().toLowerCase() || $(element).find("img").attr("alt")?.toLowerCase()
+
+    if (href && titleText && titleText.includes(title.toLowerCase())) {
+      appleUrl = href.startsWith("http") ? href : `https://tv.apple.com${href}`
+      return false
+    }
+  })
+
+  // Also check for content in script tags
+  if (!appleUrl) {
+    $("script").each((i, element) => {
+      const scriptContent = $(element).html() || ""
+      const appleMatch = scriptContent.match(/tv\.apple\.com\/us\/movie\/[^"']+/g)
+
+      if (appleMatch && scriptContent.toLowerCase().includes(title.toLowerCase())) {
+        appleUrl = `https://${appleMatch[0]}`
+        return false
+      }
+    })
+  }
+
+  if (appleUrl) {
+    logger.debug("Found Apple TV URL", { url: appleUrl })
+    return appleUrl
+  }
+
+  logger.debug("Apple TV content not found", { title })
+  return null
+}
+
+export const appleTvAdapter: PlatformAdapter = {
+  id: "apple-tv",
+  name: "Apple TV",
+  matchNames: ["apple"],
+  kinds: ["movie", "series"],
+  domains: ["tv.apple.com"],
+  contentUrlPatterns: ["tv.apple.com/"],
+  async resolveLink({ title, year, kind }: PlatformLookup, http: HttpClient) {
+    if (kind === "series") {
+      return findGoogleResultLink(http, `site:tv.apple.com "${title}" tv series`, 'a[href*="tv.apple.com/"]')
+    }
+    return resolveMovie(title, year, http)
+  },
+}
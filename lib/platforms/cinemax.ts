@@ -0,0 +1,19 @@
+import { createSiteSearchResolver } from "./helpers"
+import type { PlatformAdapter } from "./types"
+
+export const cinemaxAdapter: PlatformAdapter = {
+  id: "cinemax",
+  name: "Cinemax",
+  matchNames: ["cinemax"],
+  kinds: ["movie", "series"],
+  domains: ["cinemax.com"],
+  contentUrlPatterns: ["cinemax.com/movies/", "cinemax.com/series/", "cinemax.com/shows/"],
+  resolveLink: createSiteSearchResolver({
+    name: "Cinemax",
+    site: "cinemax.com",
+    patterns: {
+      movie: /(?:www\.)?cinemax\.com\/movies\/[^"'\s?&<>\\]+/i,
+      series: /(?:www\.)?cinemax\.com\/(?:series|shows)\/[^"'\s?&<>\\]+/i,
+    },
+  }),
+}
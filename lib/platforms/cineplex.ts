@@ -0,0 +1,24 @@
+import { createSiteSearchResolver } from "./helpers"
+import type { PlatformAdapter } from "./types"
+
+export const cineplexAdapter: PlatformAdapter = {
+  id: "cineplex",
+  name: "Cineplex",
+  matchNames: ["cineplex"],
+  kinds: ["movie", "series"],
+  domains: ["cineplex.com"],
+  contentUrlPatterns: [
+    "store.cineplex.com/product/",
+    "store.cineplex.com/movie/",
+    "store.cineplex.com/tv/",
+    "store.cineplex.com/season/",
+  ],
+  resolveLink: createSiteSearchResolver({
+    name: "Cineplex",
+    site: "store.cineplex.com",
+    patterns: {
+      movie: /store\.cineplex\.com\/(?:product|movie)\/[^"'\s?&<>\\]+/i,
+      series: /store\.cineplex\.com\/(?:product|tv|season)\/[^"'\s?&<>\\]+/i,
+    },
+  }),
+}
@@ -0,0 +1,19 @@
+import { createSiteSearchResolver } from "./helpers"
+import type { PlatformAdapter } from "./types"
+
+export const crackleAdapter: PlatformAdapter = {
+  id: "crackle",
+  name: "Crackle",
+  matchNames: ["crackle"],
+  kinds: ["movie", "series"],
+  domains: ["crackle.com"],
+  contentUrlPatterns: ["crackle.com/watch/"],
+  resolveLink: createSiteSearchResolver({
+    name: "Crackle",
+    site: "crackle.com",
+    patterns: {
+      movie: /(?:www\.)?crackle\.com\/watch\/[^"'\s?&<>\\]+/i,
+      series: /(?:www\.)?crackle\.com\/watch\/[^"'\s?&<>\\]+/i,
+    },
+  }),
+}
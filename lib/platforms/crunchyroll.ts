@@ -0,0 +1,19 @@
+import { createSiteSearchResolver } from "./helpers"
+import type { PlatformAdapter } from "./types"
+
+export const crunchyrollAdapter: PlatformAdapter = {
+  id: "crunchyroll",
+  name: "Crunchyroll",
+  matchNames: ["crunchyroll"],
+  kinds: ["movie", "series"],
+  domains: ["crunchyroll.com"],
+  contentUrlPatterns: [/crunchyroll\.com\/(?:[a-z]{2}\/)?(?:watch|series)\//],
+  resolveLink: createSiteSearchResolver({
+    name: "Crunchyroll",
+    site: "crunchyroll.com",
+    patterns: {
+      movie: /(?:www\.)?crunchyroll\.com\/(?:[a-z]{2}\/)?(?:watch|series)\/[^"'\s?&<>\\]+/i,
+      series: /(?:www\.)?crunchyroll\.com\/(?:[a-z]{2}\/)?series\/[^"'\s?&<>\\]+/i,
+    },
+  }),
+}
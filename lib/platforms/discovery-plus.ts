@@ -0,0 +1,19 @@
+import { createSiteSearchResolver } from "./helpers"
+import type { PlatformAdapter } from "./types"
+
+export const discoveryPlusAdapter: PlatformAdapter = {
+  id: "discovery-plus",
+  name: "Discovery+",
+  matchNames: ["discovery"],
+  kinds: ["movie", "series"],
+  domains: ["discovery.com", "discoveryplus.com"],
+  contentUrlPatterns: [/discoveryplus\.com\/(?:[a-z]{2}\/)?(?:show|video)\//],
+  resolveLink: createSiteSearchResolver({
+    name: "Discovery+",
+    site: "discoveryplus.com",
+    patterns: {
+      movie: /(?:www\.)?discoveryplus\.com\/(?:[a-z]{2}\/)?video\/[^"'\s?&<>\\]+/i,
+      series: /(?:www\.)?discoveryplus\.com\/(?:[a-z]{2}\/)?show\/[^"'\s?&<>\\]+/i,
+    },
+  }),
+}
@@ -0,0 +1,38 @@
+import type { HttpClient } from "../http-client"
+import { logger } from "../logger"
+import { findGoogleResultLink, matchGoogleResults } from "./helpers"
+import type { PlatformAdapter, PlatformLookup } from "./types"
+
+export const disneyPlusAdapter: PlatformAdapter = {
+  id: "disney-plus",
+  name: "Disney+",
+  matchNames: ["disney"],
+  kinds: ["movie", "series"],
+  domains: ["disneyplus.com"],
+  contentUrlPatterns: ["disneyplus.com/movies/", "disneyplus.com/series/", "disneyplus.com/video/"],
+  async resolveLink({ title, year, kind }: PlatformLookup, http: HttpClient) {
+    if (kind === "series") {
+      return findGoogleResultLink(
+        http,
+        `site:disneyplus.com "${title}" tv series`,
+        'a[href*="disneyplus.com/series/"], a[href*="disneyplus.com/video/"]',
+      )
+    }
+
+    logger.debug("Scraping Disney+", { title, year })
+
+    // Disney+ search through Google since direct scraping is heavily protected
+    const disneyMatch = await matchGoogleResults(
+      http,
+      `"${title}" ${year ?? ""} site:disneyplus.com/movies`,
+      /disneyplus\.com\/movies\/([^"'\s?]+)/i,
+    )
+    if (disneyMatch) {
+      const disneyUrl = `https://www.disneyplus.com/movies/${disneyMatch[1]}`
+      logger.debug("Found Disney+ URL", { url: disneyUrl })
+      return disneyUrl
+    }
+
+    return null
+  },
+}
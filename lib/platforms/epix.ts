@@ -0,0 +1,19 @@
+import { createSiteSearchResolver } from "./helpers"
+import type { PlatformAdapter } from "./types"
+
+export const epixAdapter: PlatformAdapter = {
+  id: "epix",
+  name: "Epix",
+  matchNames: ["epix", "mgm+", "mgm plus"],
+  kinds: ["movie", "series"],
+  domains: ["epix.com", "mgmplus.com"],
+  contentUrlPatterns: ["mgmplus.com/movie/", "mgmplus.com/series/"],
+  resolveLink: createSiteSearchResolver({
+    name: "Epix",
+    site: "mgmplus.com",
+    patterns: {
+      movie: /(?:www\.)?mgmplus\.com\/movie\/[^"'\s?&<>\\]+/i,
+      series: /(?:www\.)?mgmplus\.com\/series\/[^"'\s?&<>\\]+/i,
+    },
+  }),
+}
@@ -0,0 +1,19 @@
+import { createSiteSearchResolver } from "./helpers"
+import type { PlatformAdapter } from "./types"
+
+export const fandangoAdapter: PlatformAdapter = {
+  id: "fandango",
+  name: "Fandango",
+  matchNames: ["fandango"],
+  kinds: ["movie", "series"],
+  domains: ["fandango.com"],
+  contentUrlPatterns: ["athome.fandango.com/content/movies/details/", "athome.fandango.com/content/tv/details/"],
+  resolveLink: createSiteSearchResolver({
+    name: "Fandango",
+    site: "athome.fandango.com",
+    patterns: {
+      movie: /athome\.fandango\.com\/content\/movies\/details\/[^"'\s?&<>\\]+/i,
+      series: /athome\.fandango\.com\/content\/tv\/details\/[^"'\s?&<>\\]+/i,
+    },
+  }),
+}
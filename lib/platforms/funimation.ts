@@ -0,0 +1,19 @@
+import { createSiteSearchResolver } from "./helpers"
+import type { PlatformAdapter } from "./types"
+
+export const funimationAdapter: PlatformAdapter = {
+  id: "funimation",
+  name: "Funimation",
+  matchNames: ["funimation"],
+  kinds: ["movie", "series"],
+  domains: ["funimation.com"],
+  contentUrlPatterns: [/funimation\.com\/(?:[a-z]{2}\/)?shows\//],
+  resolveLink: createSiteSearchResolver({
+    name: "Funimation",
+    site: "funimation.com",
+    patterns: {
+      movie: /(?:www\.)?funimation\.com\/(?:[a-z]{2}\/)?shows\/[^"'\s?&<>\\]+/i,
+      series: /(?:www\.)?funimation\.com\/(?:[a-z]{2}\/)?shows\/[^"'\s?&<>\\]+/i,
+    },
+  }),
+}
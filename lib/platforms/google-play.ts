@@ -0,0 +1,40 @@
+import type { HttpClient } from "../http-client"
+import { logger } from "../logger"
+import { delay, findGoogleResultLink, matchGoogleResults } from "./helpers"
+import type { PlatformAdapter, PlatformLookup } from "./types"
+
+export const googlePlayAdapter: PlatformAdapter = {
+  id: "google-play",
+  name: "Google Play",
+  matchNames: ["google play"],
+  kinds: ["movie", "series"],
+  domains: ["play.google.com"],
+  contentUrlPatterns: ["play.google.com/store/movies/details/", "play.google.com/store/tv/"],
+  async resolveLink({ title, year, kind }: PlatformLookup, http: HttpClient) {
+    if (kind === "series") {
+      return findGoogleResultLink(
+        http,
+        `site:play.google.com "${title}" tv series`,
+        'a[href*="play.google.com/store/tv/"]',
+      )
+    }
+
+    logger.debug("Scraping Google Play", { title, year })
+
+    // Add delay to avoid rate limiting
+    await delay(2500)
+
+    const playMatch = await matchGoogleResults(
+      http,
+      `"${title}" ${year ?? ""} site:play.google.com/store/movies/details`,
+      /play\.google\.com\/store\/movies\/details\/([^"'\s?]+)/i,
+    )
+    if (playMatch) {
+      const playUrl = `https://play.google.com/store/movies/details/${playMatch[1]}`
+      logger.debug("Found Google Play URL", { url: playUrl })
+      return playUrl
+    }
+
+    return null
+  },
+}
@@ -0,0 +1,33 @@
+import type { HttpClient } from "../http-client"
+import { logger } from "../logger"
+import { findGoogleResultLink, matchGoogleResults } from "./helpers"
+import type { PlatformAdapter, PlatformLookup } from "./types"
+
+export const hboMaxAdapter: PlatformAdapter = {
+  id: "hbo-max",
+  name: "HBO Max",
+  matchNames: ["hbo", "max"],
+  kinds: ["movie", "series"],
+  domains: ["max.com", "hbomax.com", "play.hbomax.com"],
+  contentUrlPatterns: ["max.com/movies/", "max.com/shows/", "hbomax.com/"],
+  async resolveLink({ title, year, kind }: PlatformLookup, http: HttpClient) {
+    if (kind === "series") {
+      return findGoogleResultLink(
+        http,
+        `site:max.com "${title}" tv series OR site:hbomax.com "${title}"`,
+        'a[href*="max.com/"], a[href*="hbomax.com/"]',
+      )
+    }
+
+    logger.debug("Scraping HBO Max", { title, year })
+
+    const maxMatch = await matchGoogleResults(http, `"${title}" ${year ?? ""} site:max.com`, /max\.com\/([^"'\s?]+)/i)
+    if (maxMatch && !maxMatch[1].includes("search")) {
+      const maxUrl = `https://www.max.com/${maxMatch[1]}`
+      logger.debug("Found HBO Max URL", { url: maxUrl })
+      return maxUrl
+    }
+
+    return null
+  },
+}
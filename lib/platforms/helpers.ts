@@ -0,0 +1,119 @@
+import * as cheerio from "cheerio"
+import type { HttpClient } from "../http-client"
+import { logger } from "../logger"
+import type { ContentKind, PlatformLookup } from "./types"
+
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+export function toAbsoluteUrl(href: string, origin: string): string {
+  if (href.startsWith("http")) return href
+  if (href.startsWith("//")) return `https:${href}`
+  return `${origin}${href}`
+}
+
+// Runs a Google search and returns the first match of `pattern` in the raw results page
+export async function matchGoogleResults(
+  http: HttpClient,
+  query: string,
+  pattern: RegExp,
+): Promise<RegExpMatchArray | null> {
+  const searchUrl = `https://www.google.com/search?q=${encodeURIComponent(query)}`
+  const response = await http.get(searchUrl)
+  return typeof response.data === "string" ? response.data.match(pattern) : null
+}
+
+// Runs a Google search and returns the target of the first result link matching `selector`
+export async function findGoogleResultLink(http: HttpClient, query: string, selector: string): Promise<string | null> {
+  const searchUrl = `https://www.google.com/search?q=${encodeURIComponent(query)}`
+  const response = await http.get(searchUrl)
+
+  const $ = cheerio.load(response.data)
+  const href = $(selector).first().attr("href")
+  if (!href) return null
+
+  // Result links are usually wrapped as /url?q=<target>&...
+  const link = href.startsWith("/url?") ? new URLSearchParams(href.slice(5)).get("q") : toAbsoluteUrl(href, "https:")
+  if (!link) return null
+
+  try {
+    const hostname = new URL(link).hostname
+    return hostname === "google.com" || hostname === "www.google.com" ? null : link
+  } catch {
+    return null
+  }
+}
+
+export function slugify(title: string): string {
+  return title
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/&/g, "and")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/(^-|-$)/g, "")
+}
+
+const TITLE_STOP_WORDS = new Set(["the", "and", "of", "a", "an"])
+
+// Loose guard against search hits for a different title: the URL slug should share a significant word with it
+export function urlMentionsTitle(url: string, title: string): boolean {
+  const words = slugify(title)
+    .split("-")
+    .filter((word) => word.length > 1 && !TITLE_STOP_WORDS.has(word))
+  if (words.length === 0) return true
+
+  const lowerUrl = url.toLowerCase()
+  return words.some((word) => lowerUrl.includes(word))
+}
+
+// Returns the first candidate that answers a HEAD request with 200, for platforms with predictable title URLs
+export async function findFirstLiveUrl(http: HttpClient, urls: string[]): Promise<string | null> {
+  for (const url of urls) {
+    try {
+      const response = await http.head(url, { timeout: 5000, maxRedirects: 3 })
+      if (response.status === 200) {
+        return url
+      }
+    } catch (e) {
+      // Continue to next URL
+    }
+  }
+  return null
+}
+
+export interface SiteSearchOptions {
+  name: string
+  site: string
+  // Title page patterns (without protocol) per content kind; kinds without a pattern resolve to null
+  patterns: Partial<Record<ContentKind, RegExp>>
+}
+
+// Builds a resolver that finds a platform's title page through a site-restricted Google search, for
+// storefronts whose own search is client-rendered or bot-protected
+export function createSiteSearchResolver(options: SiteSearchOptions) {
+  return async ({ title, year, kind }: PlatformLookup, http: HttpClient): Promise<string | null> => {
+    const pattern = options.patterns[kind]
+    if (!pattern) return null
+
+    logger.debug(`Scraping ${options.name}`, { title, year })
+
+    const query = `"${title}" ${year ?? ""} ${kind === "series" ? "tv series" : "movie"} site:${options.site}`
+    const searchUrl = `https://www.google.com/search?q=${encodeURIComponent(query)}`
+    const response = await http.get(searchUrl)
+    if (typeof response.data !== "string") return null
+
+    const globalPattern = new RegExp(pattern.source, pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`)
+    for (const match of response.data.matchAll(globalPattern)) {
+      const url = `https://${match[0]}`
+      if (urlMentionsTitle(url, title)) {
+        logger.debug(`Found ${options.name} URL`, { url })
+        return url
+      }
+    }
+
+    logger.debug(`${options.name} content not found`, { title })
+    return null
+  }
+}
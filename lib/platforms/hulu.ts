@@ -0,0 +1,59 @@
+import * as cheerio from "cheerio"
+import type { HttpClient } from "../http-client"
+import { logger } from "../logger"
+import { findGoogleResultLink } from "./helpers"
+import type { PlatformAdapter, PlatformLookup } from "./types"
+
+async function resolveMovie(title: string, year: number | undefined, http: HttpClient): Promise<string | null> {
+  logger.debug("Scraping Hulu", { title, year })
+
+  const searchUrl = `https://www.hulu.com/search?q=${encodeURIComponent(title)}`
+
+  const response = await http.get(searchUrl)
+
+  const $ = cheerio.load(response.data)
+
+  // Look for Hulu content links
+  let huluUrl: string | null = null
+
+  $('a[href*="/movie/"], a[href*="/watch/"]').each((i, element) => {
+    const href = $(element).attr("href")
+    const titleText =
+      $(element).text().toLowerCase() ||
+      $(element).find("img").attr("alt")?.toLowerCase() ||
+      $(element).closest("[data-testid]").find('[data-testid*="title"]').text().toLowerCase()
+
+    if (href && titleText && titleText.includes(title.toLowerCase())) {
+      huluUrl = href.startsWith("http") ? href : `https://www.hulu.com${href}`
+      return false
+    }
+  })
+
+  if (huluUrl) {
+    logger.debug("Found Hulu URL", { url: huluUrl })
+    return huluUrl
+  }
+
+  logger.debug("Hulu content not found", { title })
+  return null
+}
+
+export const huluAdapter: PlatformAdapter = {
+  id: "hulu",
+  name: "Hulu",
+  matchNames: ["hulu"],
+  kinds: ["movie", "series"],
+  regions: ["US"],
+  domains: ["hulu.com"],
+  contentUrlPatterns: ["hulu.com/movie/", "hulu.com/watch/", "hulu.com/series/"],
+  async resolveLink({ title, year, kind }: PlatformLookup, http: HttpClient) {
+    if (kind === "series") {
+      return findGoogleResultLink(
+        http,
+        `site:hulu.com "${title}" tv series`,
+        'a[href*="hulu.com/series/"], a[href*="hulu.com/watch/"]',
+      )
+    }
+    return resolveMovie(title, year, http)
+  },
+}
@@ -0,0 +1,64 @@
+import { amazonPrimeVideoAdapter } from "./amazon-prime-video"
+import { appleTvAdapter } from "./apple-tv"
+import { cinemaxAdapter } from "./cinemax"
+import { cineplexAdapter } from "./cineplex"
+import { crackleAdapter } from "./crackle"
+import { crunchyrollAdapter } from "./crunchyroll"
+import { discoveryPlusAdapter } from "./discovery-plus"
+import { disneyPlusAdapter } from "./disney-plus"
+import { epixAdapter } from "./epix"
+import { fandangoAdapter } from "./fandango"
+import { funimationAdapter } from "./funimation"
+import { googlePlayAdapter } from "./google-play"
+import { hboMaxAdapter } from "./hbo-max"
+import { huluAdapter } from "./hulu"
+import { lionsgateAdapter } from "./lionsgate"
+import { lionsgatePlayAdapter } from "./lionsgate-play"
+import { microsoftStoreAdapter } from "./microsoft-store"
+import { netflixAdapter } from "./netflix"
+import { paramountPlusAdapter } from "./paramount-plus"
+import { peacockAdapter } from "./peacock"
+import { plexAdapter } from "./plex"
+import { rakutenTvAdapter } from "./rakuten-tv"
+import { PlatformRegistry } from "./registry"
+import { rokuChannelAdapter } from "./roku-channel"
+import { showtimeAdapter } from "./showtime"
+import { skyStoreAdapter } from "./sky-store"
+import { starzAdapter } from "./starz"
+import { tubiTvAdapter } from "./tubi-tv"
+import { vuduAdapter } from "./vudu"
+import { youtubeAdapter } from "./youtube"
+
+export { PlatformRegistry } from "./registry"
+export type { ContentKind, PlatformAdapter, PlatformLookup } from "./types"
+
+export const platformRegistry = new PlatformRegistry()
+  .register(netflixAdapter)
+  .register(amazonPrimeVideoAdapter)
+  .register(huluAdapter)
+  .register(appleTvAdapter)
+  .register(disneyPlusAdapter)
+  .register(hboMaxAdapter)
+  .register(paramountPlusAdapter)
+  .register(youtubeAdapter)
+  .register(googlePlayAdapter)
+  .register(vuduAdapter)
+  .register(lionsgatePlayAdapter)
+  .register(lionsgateAdapter)
+  .register(rakutenTvAdapter)
+  .register(skyStoreAdapter)
+  .register(cineplexAdapter)
+  .register(plexAdapter)
+  .register(fandangoAdapter)
+  .register(microsoftStoreAdapter)
+  .register(rokuChannelAdapter)
+  .register(tubiTvAdapter)
+  .register(crackleAdapter)
+  .register(peacockAdapter)
+  .register(showtimeAdapter)
+  .register(starzAdapter)
+  .register(epixAdapter)
+  .register(cinemaxAdapter)
+  .register(discoveryPlusAdapter)
+  .register(funimationAdapter)
+  .register(crunchyrollAdapter)
@@ -0,0 +1,19 @@
+import { createSiteSearchResolver } from "./helpers"
+import type { PlatformAdapter } from "./types"
+
+export const lionsgatePlayAdapter: PlatformAdapter = {
+  id: "lionsgate-play",
+  name: "Lionsgate Play",
+  matchNames: ["lionsgate play"],
+  kinds: ["movie", "series"],
+  domains: ["lionsgateplay.com"],
+  contentUrlPatterns: [/lionsgateplay\.com\/(?:[a-z]{2}\/)?(?:movie|movies|detail|series|show|shows)\//],
+  resolveLink: createSiteSearchResolver({
+    name: "Lionsgate Play",
+    site: "lionsgateplay.com",
+    patterns: {
+      movie: /(?:www\.)?lionsgateplay\.com\/(?:[a-z]{2}\/)?(?:movie|movies|detail)\/[^"'\s?&<>\\]+/i,
+      series: /(?:www\.)?lionsgateplay\.com\/(?:[a-z]{2}\/)?(?:series|show|shows)\/[^"'\s?&<>\\]+/i,
+    },
+  }),
+}
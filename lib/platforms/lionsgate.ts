@@ -0,0 +1,34 @@
+import type { HttpClient } from "../http-client"
+import { logger } from "../logger"
+import { createSiteSearchResolver, findFirstLiveUrl, slugify } from "./helpers"
+import type { PlatformAdapter, PlatformLookup } from "./types"
+
+const searchLionsgate = createSiteSearchResolver({
+  name: "Lionsgate",
+  site: "lionsgate.com",
+  patterns: {
+    movie: /(?:www\.)?lionsgate\.com\/movies\/[^"'\s?&<>\\]+/i,
+    series: /(?:www\.)?lionsgate\.com\/tv\/[^"'\s?&<>\\]+/i,
+  },
+})
+
+export const lionsgateAdapter: PlatformAdapter = {
+  id: "lionsgate",
+  name: "Lionsgate",
+  matchNames: ["lionsgate"],
+  kinds: ["movie", "series"],
+  domains: ["lionsgate.com"],
+  contentUrlPatterns: ["lionsgate.com/movies/", "lionsgate.com/tv/"],
+  async resolveLink(lookup: PlatformLookup, http: HttpClient) {
+    // Lionsgate title pages live at a predictable slug, so try that before searching
+    const slug = slugify(lookup.title)
+    const section = lookup.kind === "series" ? "tv" : "movies"
+    const directUrl = await findFirstLiveUrl(http, [`https://www.lionsgate.com/${section}/${slug}`])
+    if (directUrl) {
+      logger.debug("Found Lionsgate URL", { url: directUrl })
+      return directUrl
+    }
+
+    return searchLionsgate(lookup, http)
+  },
+}
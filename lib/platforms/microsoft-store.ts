@@ -0,0 +1,21 @@
+import { createSiteSearchResolver } from "./helpers"
+import type { PlatformAdapter } from "./types"
+
+export const microsoftStoreAdapter: PlatformAdapter = {
+  id: "microsoft-store",
+  name: "Microsoft Store",
+  matchNames: ["microsoft store"],
+  kinds: ["movie", "series"],
+  domains: ["microsoft.com"],
+  contentUrlPatterns: [/microsoft\.com\/(?:[a-z]{2}-[a-z]{2}\/)?(?:p|detail|store\/movies-and-tv\/p)\//],
+  resolveLink: createSiteSearchResolver({
+    name: "Microsoft Store",
+    site: "microsoft.com",
+    patterns: {
+      movie:
+        /(?:www\.|apps\.)?microsoft\.com\/(?:[a-z]{2}-[a-z]{2}\/)?(?:p|detail|store\/movies-and-tv\/p)\/[^"'\s?&<>\\]+/i,
+      series:
+        /(?:www\.|apps\.)?microsoft\.com\/(?:[a-z]{2}-[a-z]{2}\/)?(?:p|detail|store\/movies-and-tv\/p)\/[^"'\s?&<>\\]+/i,
+    },
+  }),
+}
@@ -0,0 +1,104 @@
+import * as cheerio from "cheerio"
+import type { HttpClient } from "../http-client"
+import { logger } from "../logger"
+import { delay, findGoogleResultLink } from "./helpers"
+import type { PlatformAdapter, PlatformLookup } from "./types"
+
+async function resolveMovie(title: string, year: number | undefined, http: HttpClient): Promise<string | null> {
+  logger.debug("Scraping Netflix", { title, year })
+
+  // Add delay to avoid rate limiting
+  await delay(1000)
+
+  // First try to find the content through Netflix's search
+  const searchUrl = `https://www.netflix.com/search?q=${encodeURIComponent(title)}`
+
+  const response = await http.get(searchUrl)
+
+  const $ = cheerio.load(response.data)
+
+  // Look for movie cards in search results
+  let netflixId: string | null = null
+
+  // Try to find the title ID from the page content
+  $('a[href*="/title/"]').each((i, element) => {
+    const href = $(element).attr("href")
+    const titleText = $(element).text().toLowerCase()
+
+    if (href && titleText.includes(title.toLowerCase())) {
+      const match = href.match(/\/title\/(\d+)/)
+      if (match) {
+        netflixId = match[1]
+        return false // break the loop
+      }
+    }
+  })
+
+  // Also check script tags for JSON data
+  if (!netflixId) {
+    $("script").each((i, element) => {
+      const scriptContent = $(element).html() || ""
+
+      // Look for Netflix title IDs in JSON data
+      const titleMatches = scriptContent.match(/"id":(\d{8,})/g)
+      if (titleMatches) {
+        // Try to find the right title by checking surrounding context
+        for (const match of titleMatches) {
+          const id = match.replace('"id":', "")
+          const contextStart = scriptContent.indexOf(match) - 200
+          const contextEnd = scriptContent.indexOf(match) + 200
+          const context = scriptContent.substring(Math.max(0, contextStart), contextEnd).toLowerCase()
+
+          if (context.includes(title.toLowerCase()) || (year && context.includes(year.toString()))) {
+            netflixId = id
+            break
+          }
+        }
+      }
+    })
+  }
+
+  if (netflixId) {
+    logger.debug("Found Netflix title ID", { netflixId })
+    return `https://www.netflix.com/title/${netflixId}`
+  }
+
+  const cleanTitle = title
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, "")
+    .replace(/\s+/g, "-")
+  const possibleUrls = [
+    `https://www.netflix.com/title/${cleanTitle}-${year}`,
+    `https://www.netflix.com/title/${cleanTitle}`,
+  ]
+
+  for (const url of possibleUrls) {
+    try {
+      const testResponse = await http.head(url, { timeout: 5000 })
+      if (testResponse.status === 200) {
+        logger.debug("Found Netflix URL via pattern matching", { url })
+        return url
+      }
+    } catch (e) {
+      // Continue to next URL
+    }
+  }
+
+  logger.debug("Netflix content not found", { title })
+  return null
+}
+
+export const netflixAdapter: PlatformAdapter = {
+  id: "netflix",
+  name: "Netflix",
+  matchNames: ["netflix"],
+  kinds: ["movie", "series"],
+  domains: ["netflix.com"],
+  contentUrlPatterns: ["netflix.com/title/"],
+  async resolveLink({ title, year, kind }: PlatformLookup, http: HttpClient) {
+    if (kind === "series") {
+      return findGoogleResultLink(http, `site:netflix.com "${title}" tv series`, 'a[href*="netflix.com/title/"]')
+    }
+    return resolveMovie(title, year, http)
+  },
+}
@@ -0,0 +1,29 @@
+import type { HttpClient } from "../http-client"
+import { logger } from "../logger"
+import { matchGoogleResults } from "./helpers"
+import type { PlatformAdapter, PlatformLookup } from "./types"
+
+export const paramountPlusAdapter: PlatformAdapter = {
+  id: "paramount-plus",
+  name: "Paramount+",
+  matchNames: ["paramount"],
+  kinds: ["movie"],
+  domains: ["paramountplus.com"],
+  contentUrlPatterns: ["paramountplus.com/movies/"],
+  async resolveLink({ title, year }: PlatformLookup, http: HttpClient) {
+    logger.debug("Scraping Paramount+", { title, year })
+
+    const paramountMatch = await matchGoogleResults(
+      http,
+      `"${title}" ${year ?? ""} site:paramountplus.com/movies`,
+      /paramountplus\.com\/movies\/([^"'\s?]+)/i,
+    )
+    if (paramountMatch) {
+      const paramountUrl = `https://www.paramountplus.com/movies/${paramountMatch[1]}`
+      logger.debug("Found Paramount+ URL", { url: paramountUrl })
+      return paramountUrl
+    }
+
+    return null
+  },
+}
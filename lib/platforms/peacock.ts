@@ -0,0 +1,25 @@
+import { createSiteSearchResolver } from "./helpers"
+import type { PlatformAdapter } from "./types"
+
+export const peacockAdapter: PlatformAdapter = {
+  id: "peacock",
+  name: "Peacock",
+  matchNames: ["peacock"],
+  kinds: ["movie", "series"],
+  regions: ["US"],
+  domains: ["peacocktv.com"],
+  contentUrlPatterns: [
+    "peacocktv.com/watch/asset/movies/",
+    "peacocktv.com/watch/asset/tv/",
+    "peacocktv.com/stream-movies/",
+    "peacocktv.com/stream-tv/",
+  ],
+  resolveLink: createSiteSearchResolver({
+    name: "Peacock",
+    site: "peacocktv.com",
+    patterns: {
+      movie: /(?:www\.)?peacocktv\.com\/(?:watch\/asset\/movies|stream-movies)\/[^"'\s?&<>\\]+/i,
+      series: /(?:www\.)?peacocktv\.com\/(?:watch\/asset\/tv|stream-tv)\/[^"'\s?&<>\\]+/i,
+    },
+  }),
+}
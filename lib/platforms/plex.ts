@@ -0,0 +1,39 @@
+import type { HttpClient } from "../http-client"
+import { logger } from "../logger"
+import { createSiteSearchResolver, findFirstLiveUrl, slugify } from "./helpers"
+import type { PlatformAdapter, PlatformLookup } from "./types"
+
+const searchPlex = createSiteSearchResolver({
+  name: "Plex",
+  site: "watch.plex.tv",
+  patterns: {
+    movie: /watch\.plex\.tv\/(?:[a-z]{2}\/)?movie\/[^"'\s?&<>\\]+/i,
+    series: /watch\.plex\.tv\/(?:[a-z]{2}\/)?show\/[^"'\s?&<>\\]+/i,
+  },
+})
+
+export const plexAdapter: PlatformAdapter = {
+  id: "plex",
+  name: "Plex",
+  matchNames: ["plex"],
+  kinds: ["movie", "series"],
+  domains: ["plex.tv"],
+  contentUrlPatterns: [/watch\.plex\.tv\/(?:[a-z]{2}\/)?(?:movie|show)\//],
+  async resolveLink(lookup: PlatformLookup, http: HttpClient) {
+    // Plex slugs are the title, with the year appended when another title already took the plain slug
+    const slug = slugify(lookup.title)
+    const section = lookup.kind === "series" ? "show" : "movie"
+    const candidates = [`https://watch.plex.tv/${section}/${slug}`]
+    if (lookup.year) {
+      candidates.unshift(`https://watch.plex.tv/${section}/${slug}-${lookup.year}`)
+    }
+
+    const directUrl = await findFirstLiveUrl(http, candidates)
+    if (directUrl) {
+      logger.debug("Found Plex URL", { url: directUrl })
+      return directUrl
+    }
+
+    return searchPlex(lookup, http)
+  },
+}
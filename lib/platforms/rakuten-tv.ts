@@ -0,0 +1,56 @@
+import type { HttpClient } from "../http-client"
+import { logger } from "../logger"
+import { createSiteSearchResolver, findFirstLiveUrl, slugify } from "./helpers"
+import type { PlatformAdapter, PlatformLookup } from "./types"
+
+// Rakuten TV uses its own country prefixes, which mostly but not always match ISO 3166
+const RAKUTEN_COUNTRIES: Record<string, string> = {
+  GB: "uk",
+  IE: "ie",
+  DE: "de",
+  AT: "at",
+  CH: "ch",
+  FR: "fr",
+  ES: "es",
+  IT: "it",
+  NL: "nl",
+  BE: "be",
+  PT: "pt",
+  PL: "pl",
+  SE: "se",
+  DK: "dk",
+  FI: "fi",
+  NO: "no",
+}
+
+const searchRakuten = createSiteSearchResolver({
+  name: "Rakuten TV",
+  site: "rakuten.tv",
+  patterns: {
+    movie: /(?:www\.)?rakuten\.tv\/[a-z]{2}\/movies\/[^"'\s?&<>\\]+/i,
+    series: /(?:www\.)?rakuten\.tv\/[a-z]{2}\/tv_shows\/[^"'\s?&<>\\]+/i,
+  },
+})
+
+export const rakutenTvAdapter: PlatformAdapter = {
+  id: "rakuten-tv",
+  name: "Rakuten TV",
+  matchNames: ["rakuten tv"],
+  kinds: ["movie", "series"],
+  domains: ["rakuten.tv"],
+  contentUrlPatterns: [/rakuten\.tv\/[a-z]{2}\/(?:movies|tv_shows)\//],
+  async resolveLink(lookup: PlatformLookup, http: HttpClient) {
+    const country = lookup.region ? RAKUTEN_COUNTRIES[lookup.region] : undefined
+    if (country) {
+      const slug = slugify(lookup.title)
+      const section = lookup.kind === "series" ? "tv_shows" : "movies"
+      const directUrl = await findFirstLiveUrl(http, [`https://www.rakuten.tv/${country}/${section}/${slug}`])
+      if (directUrl) {
+        logger.debug("Found Rakuten TV URL", { url: directUrl })
+        return directUrl
+      }
+    }
+
+    return searchRakuten(lookup, http)
+  },
+}
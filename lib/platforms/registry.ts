@@ -0,0 +1,84 @@
+import type { ContentKind, PlatformAdapter } from "./types"
+
+export class PlatformRegistry {
+  private adapters = new Map<string, PlatformAdapter>()
+
+  register(adapter: PlatformAdapter): this {
+    this.adapters.set(adapter.id, adapter)
+    return this
+  }
+
+  list(): PlatformAdapter[] {
+    return [...this.adapters.values()]
+  }
+
+  get(id: string): PlatformAdapter | undefined {
+    return this.adapters.get(id)
+  }
+
+  // Picks the adapter with the longest matching name fragment, so "Cinemax" goes to Cinemax rather than
+  // HBO Max ("max") and "Lionsgate Play" to Lionsgate Play rather than Lionsgate
+  findForProvider(providerName: string, kind?: ContentKind, region?: string): PlatformAdapter | undefined {
+    const name = providerName.toLowerCase()
+    let best: PlatformAdapter | undefined
+    let bestLength = 0
+
+    for (const adapter of this.adapters.values()) {
+      if (kind && !adapter.kinds.includes(kind)) continue
+      if (region && adapter.regions && !adapter.regions.includes(region)) continue
+
+      for (const fragment of adapter.matchNames) {
+        if (name.includes(fragment) && fragment.length > bestLength) {
+          best = adapter
+          bestLength = fragment.length
+        }
+      }
+    }
+
+    return best
+  }
+
+  findByUrl(url: string): PlatformAdapter | undefined {
+    let hostname: string
+    try {
+      hostname = new URL(url.startsWith("//") ? `https:${url}` : url).hostname.toLowerCase()
+    } catch {
+      return undefined
+    }
+
+    let best: PlatformAdapter | undefined
+    let bestLength = 0
+
+    for (const adapter of this.adapters.values()) {
+      for (const domain of adapter.domains) {
+        if ((hostname === domain || hostname.endsWith(`.${domain}`)) && domain.length > bestLength) {
+          best = adapter
+          bestLength = domain.length
+        }
+      }
+    }
+
+    return best
+  }
+
+  // True when the URL points at a title page on a known platform rather than a search or landing page
+  isContentUrl(url: string): boolean {
+    if (!url) return false
+
+    const lowerUrl = url.toLowerCase()
+    const isKnownPattern = this.list().some((adapter) =>
+      adapter.contentUrlPatterns.some((pattern) =>
+        typeof pattern === "string" ? lowerUrl.includes(pattern) : pattern.test(lowerUrl),
+      ),
+    )
+    const isSearchUrl =
+      lowerUrl.includes("/search") ||
+      lowerUrl.includes("?q=") ||
+      lowerUrl.includes("search_query=") ||
+      lowerUrl.includes("/results?") ||
+      // Reject bare country homepages such as tv.apple.com/us
+      /\/(us|in|gb|ca|au|de|fr|jp|br|mx)$/.test(lowerUrl)
+
+    return isKnownPattern && !isSearchUrl
+  }
+}
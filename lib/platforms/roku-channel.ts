@@ -0,0 +1,19 @@
+import { createSiteSearchResolver } from "./helpers"
+import type { PlatformAdapter } from "./types"
+
+export const rokuChannelAdapter: PlatformAdapter = {
+  id: "roku-channel",
+  name: "Roku Channel",
+  matchNames: ["roku channel"],
+  kinds: ["movie", "series"],
+  domains: ["roku.com"],
+  contentUrlPatterns: ["therokuchannel.roku.com/details/"],
+  resolveLink: createSiteSearchResolver({
+    name: "Roku Channel",
+    site: "therokuchannel.roku.com",
+    patterns: {
+      movie: /therokuchannel\.roku\.com\/details\/[^"'\s?&<>\\]+/i,
+      series: /therokuchannel\.roku\.com\/details\/[^"'\s?&<>\\]+/i,
+    },
+  }),
+}
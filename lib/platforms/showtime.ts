@@ -0,0 +1,19 @@
+import { createSiteSearchResolver } from "./helpers"
+import type { PlatformAdapter } from "./types"
+
+export const showtimeAdapter: PlatformAdapter = {
+  id: "showtime",
+  name: "Showtime",
+  matchNames: ["showtime"],
+  kinds: ["movie", "series"],
+  domains: ["showtime.com", "sho.com"],
+  contentUrlPatterns: ["sho.com/titles/", /sho\.com\/[a-z0-9-]+\/season\/\d+/],
+  resolveLink: createSiteSearchResolver({
+    name: "Showtime",
+    site: "sho.com",
+    patterns: {
+      movie: /(?:www\.)?sho\.com\/titles\/\d+\/[^"'\s?&<>\\]+/i,
+      series: /(?:www\.)?sho\.com\/[a-z0-9-]+\/season\/\d+/i,
+    },
+  }),
+}
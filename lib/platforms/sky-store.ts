@@ -0,0 +1,19 @@
+import { createSiteSearchResolver } from "./helpers"
+import type { PlatformAdapter } from "./types"
+
+export const skyStoreAdapter: PlatformAdapter = {
+  id: "sky-store",
+  name: "SKY Store",
+  matchNames: ["sky store"],
+  kinds: ["movie", "series"],
+  domains: ["skystore.com"],
+  contentUrlPatterns: ["skystore.com/product/"],
+  resolveLink: createSiteSearchResolver({
+    name: "SKY Store",
+    site: "skystore.com",
+    patterns: {
+      movie: /(?:www\.)?skystore\.com\/product\/[^"'\s?&<>\\]+/i,
+      series: /(?:www\.)?skystore\.com\/product\/[^"'\s?&<>\\]+/i,
+    },
+  }),
+}
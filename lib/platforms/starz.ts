@@ -0,0 +1,19 @@
+import { createSiteSearchResolver } from "./helpers"
+import type { PlatformAdapter } from "./types"
+
+export const starzAdapter: PlatformAdapter = {
+  id: "starz",
+  name: "Starz",
+  matchNames: ["starz"],
+  kinds: ["movie", "series"],
+  domains: ["starz.com"],
+  contentUrlPatterns: [/starz\.com\/(?:[a-z]{2}\/[a-z]{2}\/)?(?:movies|series)\//],
+  resolveLink: createSiteSearchResolver({
+    name: "Starz",
+    site: "starz.com",
+    patterns: {
+      movie: /(?:www\.)?starz\.com\/(?:[a-z]{2}\/[a-z]{2}\/)?movies\/[^"'\s?&<>\\]+/i,
+      series: /(?:www\.)?starz\.com\/(?:[a-z]{2}\/[a-z]{2}\/)?series\/[^"'\s?&<>\\]+/i,
+    },
+  }),
+}
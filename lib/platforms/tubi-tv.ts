@@ -0,0 +1,19 @@
+import { createSiteSearchResolver } from "./helpers"
+import type { PlatformAdapter } from "./types"
+
+export const tubiTvAdapter: PlatformAdapter = {
+  id: "tubi-tv",
+  name: "Tubi TV",
+  matchNames: ["tubi tv", "tubi"],
+  kinds: ["movie", "series"],
+  domains: ["tubitv.com", "tubi.tv"],
+  contentUrlPatterns: ["tubitv.com/movies/", "tubitv.com/series/", "tubi.tv/movies/", "tubi.tv/series/"],
+  resolveLink: createSiteSearchResolver({
+    name: "Tubi TV",
+    site: "tubitv.com",
+    patterns: {
+      movie: /(?:www\.)?tubitv\.com\/movies\/[^"'\s?&<>\\]+/i,
+      series: /(?:www\.)?tubitv\.com\/series\/[^"'\s?&<>\\]+/i,
+    },
+  }),
+}
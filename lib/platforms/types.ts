@@ -0,0 +1,27 @@
+import type { HttpClient } from "../http-client"
+
+export type ContentKind = "movie" | "series"
+
+export interface PlatformLookup {
+  title: string
+  year?: number
+  kind: ContentKind
+  region?: string
+}
+
+export interface PlatformAdapter {
+  id: string
+  name: string
+  // Lowercase fragments matched against TMDB/JustWatch provider names, e.g. "prime" for "Amazon Prime Video"
+  matchNames: string[]
+  kinds: ContentKind[]
+  // ISO 3166 codes the platform operates in; omitted means everywhere
+  regions?: string[]
+  // Hostnames (subdomains included) that belong to the platform
+  domains: string[]
+  // URL fragments, or patterns for paths with a locale segment, that identify a title page rather than a search or
+  // landing page
+  contentUrlPatterns: Array<string | RegExp>
+  // Finds the platform's own page for a title; adapters without one are only used to recognise URLs
+  resolveLink?(lookup: PlatformLookup, http: HttpClient): Promise<string | null>
+}
@@ -0,0 +1,19 @@
+import { createSiteSearchResolver } from "./helpers"
+import type { PlatformAdapter } from "./types"
+
+export const vuduAdapter: PlatformAdapter = {
+  id: "vudu",
+  name: "Vudu",
+  matchNames: ["vudu"],
+  kinds: ["movie", "series"],
+  domains: ["vudu.com"],
+  contentUrlPatterns: ["vudu.com/content/movies/details/", "vudu.com/content/tv/details/"],
+  resolveLink: createSiteSearchResolver({
+    name: "Vudu",
+    site: "vudu.com",
+    patterns: {
+      movie: /(?:www\.)?vudu\.com\/content\/movies\/details\/[^"'\s?&<>\\]+/i,
+      series: /(?:www\.)?vudu\.com\/content\/tv\/details\/[^"'\s?&<>\\]+/i,
+    },
+  }),
+}
@@ -0,0 +1,32 @@
+import type { HttpClient } from "../http-client"
+import { logger } from "../logger"
+import { delay, matchGoogleResults } from "./helpers"
+import type { PlatformAdapter, PlatformLookup } from "./types"
+
+export const youtubeAdapter: PlatformAdapter = {
+  id: "youtube",
+  name: "YouTube",
+  matchNames: ["youtube"],
+  kinds: ["movie"],
+  domains: ["youtube.com"],
+  contentUrlPatterns: ["youtube.com/watch?v="],
+  async resolveLink({ title, year }: PlatformLookup, http: HttpClient) {
+    logger.debug("Scraping YouTube", { title, year })
+
+    // Add delay to avoid rate limiting
+    await delay(2000)
+
+    const youtubeMatch = await matchGoogleResults(
+      http,
+      `"${title}" ${year ?? ""} full movie site:youtube.com/watch`,
+      /youtube\.com\/watch\?v=([A-Za-z0-9_-]{11})/i,
+    )
+    if (youtubeMatch) {
+      const youtubeUrl = `https://www.youtube.com/watch?v=${youtubeMatch[1]}`
+      logger.debug("Found YouTube URL", { url: youtubeUrl })
+      return youtubeUrl
+    }
+
+    return null
+  },
+}
@@ -0,0 +1,142 @@
+import { recordSourceOutcome } from "./health"
+import { logger } from "./logger"
+import { sourceLookupDuration, sourceLookups } from "./metrics"
+
+export type SourceStatus = "running" | "completed" | "failed" | "skipped"
+
+// How a finished lookup went, as reported to API consumers deciding whether to retry; "cached" means the source was
+// not consulted because a cached result that it contributed to was served instead
+export type SourceOutcome = "succeeded" | "skipped" | "no_match" | "rate_limited" | "error" | "cached"
+
+export interface ProgressEvent {
+  // Upstream being consulted, e.g. "tmdb", "omdb", "justwatch" or "availability"
+  source: string
+  region?: string
+  status: SourceStatus
+  // Lookup result on completion, e.g. one region's platforms for "availability" events
+  data?: unknown
+  // Set once the lookup has finished or been skipped
+  outcome?: SourceOutcome
+  latencyMs?: number
+  message?: string
+}
+
+export interface SourceReport {
+  source: string
+  region?: string
+  status: SourceOutcome
+  latencyMs?: number
+  message?: string
+}
+
+export type ProgressListener = (event: ProgressEvent) => void
+
+export const ignoreProgress: ProgressListener = () => {}
+
+// Stand-in for availability when a document is built from the metadata sources alone
+export const PENDING_AVAILABILITY: PromiseSettledResult<never> = { status: "rejected", reason: "pending" }
+
+export function getProgressKey(event: Pick<ProgressEvent, "source" | "region">): string {
+  return event.region ? `${event.source}.${event.region}` : event.source
+}
+
+// Reports a lookup as running, then completed or failed; a broken listener never fails the lookup itself
+export async function trackSource<T>(
+  onProgress: ProgressListener,
+  source: string,
+  lookup: () => Promise<T>,
+  region?: string,
+): Promise<T> {
+  notify(onProgress, { source, region, status: "running" })
+  const startedAt = Date.now()
+  try {
+    const value = await lookup()
+    notify(onProgress, {
+      source,
+      region,
+      status: "completed",
+      data: value,
+      outcome: value === null || value === undefined ? "no_match" : "succeeded",
+      latencyMs: Date.now() - startedAt,
+    })
+    return value
+  } catch (error: any) {
+    notify(onProgress, {
+      source,
+      region,
+      status: "failed",
+      outcome: error?.response?.status === 429 ? "rate_limited" : "error",
+      latencyMs: Date.now() - startedAt,
+      message: error instanceof Error ? error.message : "Unknown error",
+    })
+    throw error
+  }
+}
+
+// Stands in for trackSource when the source cannot be queried, e.g. its API key is not configured
+export async function skipSource(
+  onProgress: ProgressListener,
+  source: string,
+  message: string,
+  region?: string,
+): Promise<null> {
+  notify(onProgress, { source, region, status: "skipped", outcome: "skipped", message })
+  return null
+}
+
+// Stands in for trackSource when a cached result covering the source is served instead of querying it
+export function reportCachedSource(onProgress: ProgressListener, source: string, region?: string): void {
+  notify(onProgress, { source, region, status: "completed", outcome: "cached" })
+}
+
+// Collects the final outcome of every source a lookup consulted, passing each event on to `forward`
+export class SourceReporter {
+  private readonly reports = new Map<string, SourceReport>()
+
+  constructor(private readonly forward: ProgressListener = ignoreProgress) {}
+
+  readonly listener: ProgressListener = (event) => {
+    if (event.outcome) {
+      this.reports.set(getProgressKey(event), {
+        source: event.source,
+        region: event.region,
+        status: event.outcome,
+        latencyMs: event.latencyMs,
+        message: event.message,
+      })
+    }
+    this.forward(event)
+  }
+
+  toJSON(): SourceReport[] {
+    return [...this.reports.values()]
+  }
+}
+
+// Emits the document as far as it can be built before availability lookups finish, as a "metadata" event
+export function reportMetadata(onProgress: ProgressListener, build: () => { availableOn?: unknown }): void {
+  if (onProgress === ignoreProgress) return
+
+  try {
+    const { availableOn, ...metadata } = build()
+    notify(onProgress, { source: "metadata", status: "completed", data: metadata })
+  } catch (error) {
+    logger.error("Failed to build metadata preview", { error })
+  }
+}
+
+function notify(onProgress: ProgressListener, event: ProgressEvent): void {
+  if (event.outcome) {
+    const { source, region, outcome, latencyMs, message } = event
+    logger.debug("Source finished", { source, region, outcome, latencyMs, message })
+    sourceLookups.inc({ source, outcome })
+    if (latencyMs !== undefined) sourceLookupDuration.observe({ source }, latencyMs / 1000)
+    recordSourceOutcome(source, outcome, message)
+  }
+
+  try {
+    onProgress(event)
+  } catch (error) {
+    logger.error("Progress listener failed", { source: getProgressKey(event), error })
+  }
+}
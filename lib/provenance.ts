@@ -0,0 +1,68 @@
+import type { FieldProvenance, Provenance } from "./types"
+
+export interface Fetched {
+  fetchedAt?: string
+}
+
+export const REQUEST_INPUT: FieldProvenance = { source: "request" }
+export const DEFAULT_VALUE: FieldProvenance = { source: "default" }
+export const MERGED_AVAILABILITY: FieldProvenance = { source: "availability" }
+
+// Stamps a lookup result before it is cached, so a cached copy keeps the time it was really fetched
+export async function withFetchTime<T extends object>(lookup: Promise<T | null>): Promise<(T & Fetched) | null> {
+  const value = await lookup
+  return value ? { ...value, fetchedAt: new Date().toISOString() } : null
+}
+
+export function describeSource(source: string, data: Fetched | null | undefined, url?: string): FieldProvenance | null {
+  return data ? { source, fetchedAt: data.fetchedAt, url } : null
+}
+
+export class ProvenanceRecorder {
+  private readonly fields: Provenance = {}
+
+  // Returns the first truthy value, like the `a || b` fallbacks it replaces, and records which source supplied it
+  pick<T>(field: string, ...options: [FieldProvenance | null, T | null | undefined][]): T | undefined {
+    for (const [source, value] of options) {
+      if (value) {
+        if (source) this.fields[field] = source
+        return value
+      }
+    }
+    return undefined
+  }
+
+  record(field: string, source: FieldProvenance): void {
+    this.fields[field] = source
+  }
+
+  // Records that a hard-coded value stands in because no source had one
+  fallback<T>(field: string, value: T): T {
+    this.fields[field] = DEFAULT_VALUE
+    return value
+  }
+
+  // Records one source for every listed field that ended up with a value in the response
+  attribute(response: object, source: FieldProvenance | null, fields: string[]): void {
+    if (!source) return
+
+    for (const field of fields) {
+      if (hasValue(readPath(response, field))) {
+        this.fields[field] = source
+      }
+    }
+  }
+
+  toJSON(): Provenance {
+    return { ...this.fields }
+  }
+}
+
+function readPath(value: any, path: string): unknown {
+  return path.split(".").reduce((current, key) => current?.[key], value)
+}
+
+export function hasValue(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0
+  return value !== undefined && value !== null && value !== ""
+}
@@ -0,0 +1,72 @@
+export interface RateLimiterOptions {
+  // Maximum number of tasks running at the same time
+  concurrency: number
+  // Minimum gap between two task starts
+  minIntervalMs: number
+}
+
+export class RateLimiter {
+  private readonly concurrency: number
+  private readonly minIntervalMs: number
+  private queue: Array<() => void> = []
+  private running = 0
+  private lastStartedAt = 0
+  private timer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(options: RateLimiterOptions) {
+    this.concurrency = Math.max(1, options.concurrency)
+    this.minIntervalMs = Math.max(0, options.minIntervalMs)
+  }
+
+  schedule<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            this.running--
+            this.drain()
+          })
+      })
+      this.drain()
+    })
+  }
+
+  private drain(): void {
+    if (this.timer) return
+
+    while (this.queue.length > 0 && this.running < this.concurrency) {
+      const wait = this.lastStartedAt + this.minIntervalMs - Date.now()
+      if (wait > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = null
+          this.drain()
+        }, wait)
+        return
+      }
+
+      const next = this.queue.shift()!
+      this.running++
+      this.lastStartedAt = Date.now()
+      next()
+    }
+  }
+}
+
+let availabilityLimiter: RateLimiter | null = null
+
+// Shared by every scraper so concurrent requests do not multiply the load on TMDB and JustWatch
+export function getAvailabilityRateLimiter(): RateLimiter {
+  if (!availabilityLimiter) {
+    availabilityLimiter = new RateLimiter({
+      concurrency: readIntFromEnv("AVAILABILITY_CONCURRENCY", 3),
+      minIntervalMs: readIntFromEnv("AVAILABILITY_MIN_INTERVAL_MS", 500),
+    })
+  }
+  return availabilityLimiter
+}
+
+function readIntFromEnv(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] || "")
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
@@ -0,0 +1,92 @@
+import type { ResponseCache } from "./cache"
+import type { HttpClient } from "./http-client"
+import { logger } from "./logger"
+import type { PlatformAvailability, RegionalAvailability } from "./types"
+import { getUpstreamUrl } from "./upstreams"
+
+export const DEFAULT_REGION = "US"
+
+export const DEFAULT_AVAILABILITY_REGIONS = ["US", "IN", "GB", "CA", "AU", "DE", "FR", "JP", "BR", "MX"]
+
+// Passed as `regions` to research every region TMDB has watch provider data for
+export const ALL_REGIONS = "all"
+
+export type RegionSelection = string[] | typeof ALL_REGIONS
+
+// ISO 3166-1 alpha-2
+const ISO_REGION_CODES = new Set(
+  (
+    "AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS BT BV BW BY BZ " +
+    "CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE EG EH ER ES ET FI FJ FK FM FO FR " +
+    "GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO " +
+    "JP KE KG KH KI KM KN KP KR KW KY KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR " +
+    "MS MT MU MV MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO " +
+    "RS RU RW SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV " +
+    "TW TZ UA UG UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT ZA ZM ZW"
+  ).split(" "),
+)
+
+// JustWatch uses its own country slugs, which mostly but not always match ISO 3166
+const JUSTWATCH_COUNTRIES: Record<string, string> = {
+  GB: "uk",
+}
+
+export function isValidRegionCode(code: unknown): code is string {
+  return typeof code === "string" && ISO_REGION_CODES.has(code.toUpperCase())
+}
+
+// Expands a request's region selection into the list to research; the default region is always included
+// so the flattened availability view has data
+export async function resolveRegions(
+  selection: RegionSelection | undefined,
+  defaultRegion: string,
+  http: HttpClient,
+  cache: ResponseCache,
+): Promise<string[]> {
+  let regions: string[]
+  if (selection === ALL_REGIONS) {
+    regions = await getTMDBWatchRegions(http, cache)
+  } else if (selection?.length) {
+    regions = selection.map((code) => code.toUpperCase())
+  } else {
+    regions = DEFAULT_AVAILABILITY_REGIONS
+  }
+
+  return Array.from(new Set([defaultRegion, ...regions]))
+}
+
+async function getTMDBWatchRegions(http: HttpClient, cache: ResponseCache): Promise<string[]> {
+  const apiKey = process.env.TMDB_API_KEY
+  if (!apiKey) return DEFAULT_AVAILABILITY_REGIONS
+
+  try {
+    const regions = await cache.wrap("tmdb", { type: "watchRegions" }, async () => {
+      const response = await http.getJson(`${getUpstreamUrl("tmdb")}/watch/providers/regions?api_key=${apiKey}`)
+      const codes: string[] = (response.data.results || []).map((region: any) => region.iso_3166_1)
+      return codes.length > 0 ? codes : null
+    })
+    return regions || DEFAULT_AVAILABILITY_REGIONS
+  } catch (error) {
+    logger.error("TMDB watch regions error", { error })
+    return DEFAULT_AVAILABILITY_REGIONS
+  }
+}
+
+export function getJustWatchCountry(region: string): string {
+  return JUSTWATCH_COUNTRIES[region] || region.toLowerCase()
+}
+
+export function buildRegionalAvailability(
+  regions: { [region: string]: PlatformAvailability } | null | undefined,
+  defaultRegion: string = DEFAULT_REGION,
+): RegionalAvailability {
+  const byRegion = regions || {}
+  const flattened = byRegion[defaultRegion] || { streaming: [], purchase: [] }
+
+  return {
+    region: defaultRegion,
+    streaming: flattened.streaming,
+    purchase: flattened.purchase,
+    regions: byRegion,
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server"
+import { getApiKeyAuthenticator } from "./auth"
+import { logger, resolveCorrelationId, runWithLogContext } from "./logger"
+import { httpRequestDuration, httpRequests } from "./metrics"
+
+export interface RequestContextOptions {
+  // Daily quota units the request uses (default 1); read before the handler runs, so it must not consume the body
+  cost?: (request: Request) => Promise<number>
+}
+
+// Authenticates the caller, runs the route handler with its correlation ID (the caller's or a new one) and client id
+// in the log context, echoes the ID in the response headers and records the request's status and latency
+export async function withRequestContext(
+  request: Request,
+  handler: () => Promise<Response>,
+  options: RequestContextOptions = {},
+): Promise<Response> {
+  const correlationId = resolveCorrelationId(request)
+  const route = getRouteLabel(request)
+  const startedAt = Date.now()
+  let clientId: string | undefined
+
+  try {
+    const response = await runWithLogContext({ correlationId }, async () => {
+      const authenticator = getApiKeyAuthenticator()
+      const cost = authenticator.enabled && options.cost ? await options.cost(request) : 1
+      const auth = authenticator.authorize(request, cost)
+      clientId = auth.client?.id
+      if (!auth.allowed) {
+        logger.warn("Request rejected", { route, status: auth.status, reason: auth.error, client: clientId })
+        return NextResponse.json(
+          { error: auth.error, message: auth.message },
+          {
+            status: auth.status,
+            headers: auth.retryAfterSeconds ? { "Retry-After": String(auth.retryAfterSeconds) } : undefined,
+          },
+        )
+      }
+
+      return runWithLogContext({ correlationId, clientId }, handler)
+    })
+    response.headers.set("X-Correlation-Id", correlationId)
+    httpRequests.inc({ route, method: request.method, status: response.status, client: clientId })
+    return response
+  } catch (error) {
+    httpRequests.inc({ route, method: request.method, status: 500, client: clientId })
+    throw error
+  } finally {
+    httpRequestDuration.observe({ route, method: request.method }, (Date.now() - startedAt) / 1000)
+  }
+}
+
+// Job IDs are folded into one route so the label stays bounded
+function getRouteLabel(request: Request): string {
+  return new URL(request.url).pathname.replace(/^\/api\/jobs\/[^/]+$/, "/api/jobs/[id]")
+}
@@ -0,0 +1,86 @@
+import type { z } from "zod"
+import type { ProgressListener } from "./progress"
+import {
+  BookRequestSchema,
+  MovieRequestSchema,
+  MusicRequestSchema,
+  type ResearchTypeSchema,
+  SeriesRequestSchema,
+} from "./schemas"
+import { BookScraper } from "./scrapers/book-scraper"
+import { MovieScraper } from "./scrapers/movie-scraper"
+import { MusicScraper } from "./scrapers/music-scraper"
+import { SeriesScraper } from "./scrapers/series-scraper"
+import type {
+  BookRequest,
+  BookResponse,
+  MovieRequest,
+  MovieResponse,
+  MusicRequest,
+  MusicResponse,
+  SeriesRequest,
+  SearchCandidate,
+  SeriesResponse,
+} from "./types"
+
+export type ResearchType = z.infer<typeof ResearchTypeSchema>
+
+export interface ResearchRequestMap {
+  movie: MovieRequest
+  series: SeriesRequest
+  music: MusicRequest
+  book: BookRequest
+}
+
+export interface ResearchResponseMap {
+  movie: MovieResponse
+  series: SeriesResponse
+  music: MusicResponse
+  book: BookResponse
+}
+
+export const REQUEST_SCHEMAS = {
+  movie: MovieRequestSchema,
+  series: SeriesRequestSchema,
+  music: MusicRequestSchema,
+  book: BookRequestSchema,
+}
+
+// Single entry point for code that researches any content type, e.g. the batch endpoint.
+// Scrapers are cheap to construct; the HTTP client, cache and rate limiter behind them are shared singletons.
+export async function runResearch<T extends ResearchType>(
+  type: T,
+  request: ResearchRequestMap[T],
+  onProgress?: ProgressListener,
+): Promise<ResearchResponseMap[T]> {
+  switch (type) {
+    case "movie":
+      return (await new MovieScraper().scrapeMovieData(request as MovieRequest, onProgress)) as ResearchResponseMap[T]
+    case "series":
+      return (await new SeriesScraper().scrapeSeriesData(
+        request as SeriesRequest,
+        onProgress,
+      )) as ResearchResponseMap[T]
+    case "music":
+      return (await new MusicScraper().scrapeMusicData(request as MusicRequest, onProgress)) as ResearchResponseMap[T]
+    case "book":
+      return (await new BookScraper().scrapeBookData(request as BookRequest, onProgress)) as ResearchResponseMap[T]
+    default:
+      throw new Error(`Unsupported research type: ${type}`)
+  }
+}
+
+export async function searchCandidates(type: ResearchType, query: string, limit: number): Promise<SearchCandidate[]> {
+  switch (type) {
+    case "movie":
+      return new MovieScraper().searchMovies(query, limit)
+    case "series":
+      return new SeriesScraper().searchSeries(query, limit)
+    case "music":
+      return new MusicScraper().searchTracks(query, limit)
+    case "book":
+      return new BookScraper().searchBooks(query, limit)
+    default:
+      throw new Error(`Unsupported research type: ${type}`)
+  }
+}
@@ -0,0 +1,262 @@
+import { z, type ZodError, type ZodTypeAny } from "zod"
+import { isPublicHostname } from "./callback-url"
+import { createMergePolicyOverrideSchema } from "./merge-policy"
+import { ALL_REGIONS, isValidRegionCode } from "./regions"
+
+const MAX_YEAR = new Date().getFullYear() + 5
+
+const title = z.string().trim().min(1, "Title must not be empty").describe("Title to research")
+const year = z
+  .number()
+  .int("Year must be a whole number")
+  .min(1800, "Year must be 1800 or later")
+  .max(MAX_YEAR, `Year must be ${MAX_YEAR} or earlier`)
+  .describe("Release year")
+const genre = z.string().trim().min(1).describe("Genre, used to disambiguate matches")
+
+const region = z
+  .string()
+  .refine(isValidRegionCode, "Must be an ISO 3166-1 alpha-2 region code")
+  .describe("ISO 3166-1 alpha-2 region used for the flattened availableOn lists (default US)")
+const regions = z
+  .union([
+    z.array(z.string().refine(isValidRegionCode, "Must be an ISO 3166-1 alpha-2 region code")).min(1),
+    z.literal(ALL_REGIONS),
+  ])
+  .describe(`ISO 3166-1 alpha-2 regions to research, or "${ALL_REGIONS}" for every region TMDB covers`)
+
+const isbn = z
+  .string()
+  .refine((value) => /^(?:\d{9}[\dX]|\d{13})$/i.test(value.replace(/[\s-]/g, "")), "Must be an ISBN-10 or ISBN-13")
+  .describe("ISBN-10 or ISBN-13, hyphens allowed; looked up directly instead of searching by title")
+
+const imdbId = z
+  .string()
+  .regex(/^tt\d{7,}$/, "Must be an IMDb ID such as tt0133093")
+  .describe("IMDb ID, looked up directly instead of searching by title")
+const tmdbId = z
+  .union([z.number().int().positive(), z.string().regex(/^\d+$/, "Must be a numeric TMDB ID")])
+  .transform(String)
+  .describe("TMDB ID, looked up directly instead of searching by title")
+const spotifyId = z
+  .string()
+  .regex(/^[0-9A-Za-z]{22}$/, "Must be a 22 character Spotify track ID")
+  .describe("Spotify track ID, looked up directly instead of searching by title")
+const isrc = z
+  .string()
+  .refine((value) => /^[A-Z]{2}[A-Z0-9]{3}\d{7}$/i.test(value.replace(/-/g, "")), "Must be a 12 character ISRC")
+  .describe("ISRC of the recording, used instead of a title search")
+
+const provenance = z.boolean().describe("Add a provenance section naming the source, fetch time and URL of each field")
+
+const bodyParams = {
+  required_error: "Request body must be a JSON object",
+  invalid_type_error: "Request body must be a JSON object",
+}
+
+// Unknown fields are rejected rather than silently passed through to the scrapers
+export const MovieRequestSchema = z
+  .object(
+    {
+      title,
+      year,
+      director: z.string().trim().min(1).optional().describe("Director name"),
+      cast: z.array(z.string().trim().min(1)).optional().describe("Cast member names"),
+      genre: genre.optional(),
+      region: region.optional(),
+      regions: regions.optional(),
+      imdbId: imdbId.optional(),
+      tmdbId: tmdbId.optional(),
+      provenance: provenance.optional(),
+      mergePolicy: createMergePolicyOverrideSchema("movie").optional(),
+    },
+    bodyParams,
+  )
+  .strict()
+
+export const SeriesRequestSchema = z
+  .object(
+    {
+      title,
+      year: year.optional(),
+      creator: z.string().trim().min(1).optional().describe("Creator name"),
+      network: z.string().trim().min(1).optional().describe("Original network"),
+      genre: genre.optional(),
+      region: region.optional(),
+      regions: regions.optional(),
+      imdbId: imdbId.optional(),
+      tmdbId: tmdbId.optional(),
+      provenance: provenance.optional(),
+      mergePolicy: createMergePolicyOverrideSchema("series").optional(),
+    },
+    bodyParams,
+  )
+  .strict()
+
+export const MusicRequestSchema = z
+  .object(
+    {
+      title,
+      artist: z.string().trim().min(1, "Artist must not be empty").describe("Performing artist"),
+      year: year.optional(),
+      album: z.string().trim().min(1).optional().describe("Album the track appears on"),
+      genre: genre.optional(),
+      spotifyId: spotifyId.optional(),
+      isrc: isrc.optional(),
+      provenance: provenance.optional(),
+      mergePolicy: createMergePolicyOverrideSchema("music").optional(),
+    },
+    bodyParams,
+  )
+  .strict()
+
+export const BookRequestSchema = z
+  .object(
+    {
+      title,
+      author: z.string().trim().min(1).optional().describe("Author name"),
+      year: year.optional().describe("Publication year"),
+      isbn: isbn.optional(),
+      genre: genre.optional(),
+      provenance: provenance.optional(),
+      mergePolicy: createMergePolicyOverrideSchema("book").optional(),
+    },
+    bodyParams,
+  )
+  .strict()
+
+export const ResearchTypeSchema = z.enum(["movie", "series", "music", "book"])
+
+export const MAX_BATCH_ITEMS = readIntFromEnv("BATCH_MAX_ITEMS", 100)
+export const MAX_BATCH_CONCURRENCY = 10
+
+// Item requests are validated one by one when the batch runs, so a bad item only fails itself
+export const BatchRequestSchema = z
+  .object(
+    {
+      items: z
+        .array(
+          z
+            .object({
+              id: z.string().min(1).optional().describe("Caller reference echoed back in the item result"),
+              type: ResearchTypeSchema,
+              request: z.record(z.unknown()).describe("Body accepted by the matching /api/research/{type} endpoint"),
+            })
+            .strict(),
+        )
+        .min(1, "Batch must contain at least one item")
+        .max(MAX_BATCH_ITEMS, `Batch must contain at most ${MAX_BATCH_ITEMS} items`)
+        .describe("Research requests to run"),
+      concurrency: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_BATCH_CONCURRENCY)
+        .optional()
+        .describe(`Items researched at the same time (default 4, max ${MAX_BATCH_CONCURRENCY})`),
+    },
+    bodyParams,
+  )
+  .strict()
+
+export const DEFAULT_SEARCH_RESULTS = 10
+export const MAX_SEARCH_RESULTS = 20
+
+// Query string values arrive as strings, so limit is coerced before validation
+export const SearchQuerySchema = z
+  .object({
+    type: ResearchTypeSchema.describe("Kind of content to search for"),
+    q: z.string().trim().min(1, "Query must not be empty").max(200).describe("Title to search for"),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_SEARCH_RESULTS)
+      .optional()
+      .describe(`Candidates to return (default ${DEFAULT_SEARCH_RESULTS}, max ${MAX_SEARCH_RESULTS})`),
+  })
+  .strict()
+
+export const CallbackUrlSchema = z
+  .string()
+  .url("Must be an absolute URL")
+  .refine((value) => /^https?:\/\//i.test(value), "Must be an http or https URL")
+  .refine(hasPublicHost, "Must not point at a local or private address")
+  .describe("URL the finished job is POSTed to")
+
+function hasPublicHost(value: string): boolean {
+  try {
+    return isPublicHostname(new URL(value).hostname)
+  } catch {
+    return false
+  }
+}
+
+export interface FieldError {
+  field: string
+  message: string
+}
+
+// Flattens zod issues into one entry per offending field, e.g. "cast.1" or "body" for the request itself
+export function formatValidationErrors(error: ZodError): FieldError[] {
+  const errors: FieldError[] = []
+
+  for (const issue of error.issues) {
+    if (issue.code === "unrecognized_keys") {
+      for (const key of issue.keys) {
+        errors.push({ field: [...issue.path, key].join("."), message: "Unknown field" })
+      }
+      continue
+    }
+
+    errors.push({ field: issue.path.join(".") || "body", message: issue.message })
+  }
+
+  return errors
+}
+
+export interface FieldDescription {
+  type: string
+  required: boolean
+  description?: string
+}
+
+// Summarises an object schema for the GET self-description endpoints
+export function describeSchema(schema: z.AnyZodObject): {
+  requiredFields: string[]
+  optionalFields: string[]
+  schema: Record<string, FieldDescription>
+} {
+  const fields: Record<string, FieldDescription> = {}
+
+  for (const [name, field] of Object.entries<ZodTypeAny>(schema.shape)) {
+    const required = !field.isOptional()
+    fields[name] = { type: describeType(field), required, description: field.description }
+  }
+
+  const names = Object.keys(fields)
+  return {
+    requiredFields: names.filter((name) => fields[name].required),
+    optionalFields: names.filter((name) => !fields[name].required),
+    schema: fields,
+  }
+}
+
+function readIntFromEnv(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] || "")
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+function describeType(schema: ZodTypeAny): string {
+  if (schema instanceof z.ZodOptional) return describeType(schema.unwrap())
+  if (schema instanceof z.ZodEffects) return describeType(schema.innerType())
+  if (schema instanceof z.ZodString) return "string"
+  if (schema instanceof z.ZodNumber) return schema.isInt ? "integer" : "number"
+  if (schema instanceof z.ZodBoolean) return "boolean"
+  if (schema instanceof z.ZodLiteral) return JSON.stringify(schema.value)
+  if (schema instanceof z.ZodArray) return `${describeType(schema.element)}[]`
+  if (schema instanceof z.ZodUnion) return schema.options.map(describeType).join(" | ")
+  if (schema instanceof z.ZodEnum) return schema.options.map((option: string) => JSON.stringify(option)).join(" | ")
+  if (schema instanceof z.ZodRecord || schema instanceof z.ZodObject) return "object"
+  return "unknown"
+}
@@ -1,42 +1,146 @@
-import axios from "axios"
-import type { BookRequest, BookResponse, StreamingPlatform } from "../types"
+import { getResponseCache, type ResponseCache } from "../cache"
+import { getHttpClient, type HttpClient } from "../http-client"
+import { logger } from "../logger"
+import { exactMatch, type MatchCandidate, noMatch, parseYear, type ResolvedMatch, selectMatch } from "../matching"
+import { FieldMerger, getMergePolicy } from "../merge-policy"
+import { describeSource, MERGED_AVAILABILITY, ProvenanceRecorder, REQUEST_INPUT } from "../provenance"
+import { ignoreProgress, PENDING_AVAILABILITY, reportMetadata, trackSource, type ProgressListener } from "../progress"
+import type { BookRequest, BookResponse, MatchInfo, SearchCandidate, StreamingPlatform } from "../types"
+import { getUpstreamUrl } from "../upstreams"
+
+const MAX_CANDIDATES = 10
 
 export class BookScraper {
+  private readonly log = logger.child({ component: "book-scraper" })
   private readonly GOOGLE_BOOKS_API_KEY = process.env.GOOGLE_BOOKS_API_KEY
 
-  async scrapeBookData(request: BookRequest): Promise<BookResponse> {
+  constructor(
+    private readonly http: HttpClient = getHttpClient(),
+    private readonly cache: ResponseCache = getResponseCache(),
+  ) {}
+
+  async scrapeBookData(request: BookRequest, onProgress: ProgressListener = ignoreProgress): Promise<BookResponse> {
     try {
-      const [googleBooksData, goodreadsData, availabilityData] = await Promise.allSettled([
-        this.getGoogleBooksData(request.title, request.author),
+      const matchLookup = this.cache.wrap(
+        "googleBooks",
+        { title: request.title, author: request.author, year: request.year, isbn: request.isbn, type: "volumeMatch" },
+        () => this.resolveGoogleBooksVolume(request),
+      )
+      const googleBooksLookup = trackSource(onProgress, "googleBooks", async () => (await matchLookup)?.value ?? null)
+      const goodreadsLookup = trackSource(onProgress, "goodreads", () =>
         this.getGoodreadsData(request.title, request.author),
-        this.getBookAvailability(request.title, request.author),
+      )
+      const metadataReported = Promise.allSettled([googleBooksLookup, goodreadsLookup, matchLookup]).then(
+        ([googleBooksData, goodreadsData, resolved]) =>
+          reportMetadata(onProgress, () =>
+            this.combineBookData(
+              request,
+              googleBooksData,
+              goodreadsData,
+              PENDING_AVAILABILITY,
+              this.getMatchInfo(resolved),
+            ),
+          ),
+      )
+
+      const [googleBooksData, goodreadsData, availabilityData] = await Promise.allSettled([
+        googleBooksLookup,
+        goodreadsLookup,
+        trackSource(onProgress, "availability", () => this.getBookAvailability(request.title, request.author)),
       ])
+      await metadataReported
 
-      const bookData = this.combineBookData(request, googleBooksData, goodreadsData, availabilityData)
+      const [resolved] = await Promise.allSettled([matchLookup])
+      const bookData = this.combineBookData(
+        request,
+        googleBooksData,
+        goodreadsData,
+        availabilityData,
+        this.getMatchInfo(resolved),
+      )
       return bookData
     } catch (error) {
-      console.error("Error scraping book data:", error)
+      this.log.error("Error scraping book data", { error })
       throw new Error("Failed to scrape book data")
     }
   }
 
-  private async getGoogleBooksData(title: string, author?: string) {
+  // Lightweight candidates for picking a book before researching it by isbn
+  async searchBooks(query: string, limit: number): Promise<SearchCandidate[]> {
+    try {
+      return await this.cache.wrap("googleBooks", { type: "bookSearch", query, limit }, async () => {
+        const url = this.GOOGLE_BOOKS_API_KEY
+          ? `${getUpstreamUrl("googleBooks")}/volumes?q=${encodeURIComponent(query)}&maxResults=${limit}&key=${this.GOOGLE_BOOKS_API_KEY}`
+          : `${getUpstreamUrl("googleBooks")}/volumes?q=${encodeURIComponent(query)}&maxResults=${limit}`
+
+        const response = await this.http.getJson(url)
+
+        return (response.data.items || []).map((item: any): SearchCandidate => {
+          const identifiers = item.volumeInfo?.industryIdentifiers || []
+          const isbn =
+            identifiers.find((id: any) => id.type === "ISBN_13")?.identifier ||
+            identifiers.find((id: any) => id.type === "ISBN_10")?.identifier
+
+          return {
+            title: item.volumeInfo?.title,
+            year: parseYear(item.volumeInfo?.publishedDate),
+            image: item.volumeInfo?.imageLinks?.thumbnail,
+            person: item.volumeInfo?.authors?.[0],
+            externalIds: { isbn },
+          }
+        })
+      })
+    } catch (error) {
+      this.log.error("Google Books search error", { error })
+      throw new Error("Failed to search books")
+    }
+  }
+
+  private getMatchInfo(resolved: PromiseSettledResult<ResolvedMatch<any> | null>): MatchInfo | undefined {
+    return resolved.status === "fulfilled" ? resolved.value?.match : undefined
+  }
+
+  private async resolveGoogleBooksVolume(request: BookRequest): Promise<ResolvedMatch<any> | null> {
+    const { title, author, year, isbn } = request
     try {
-      const query = author ? `intitle:"${title}" inauthor:"${author}"` : `intitle:"${title}"`
+      // An ISBN identifies the edition exactly, so the title and author are only used without one
+      const query = isbn
+        ? `isbn:${isbn.replace(/[\s-]/g, "")}`
+        : author
+          ? `intitle:"${title}" inauthor:"${author}"`
+          : `intitle:"${title}"`
       const url = this.GOOGLE_BOOKS_API_KEY
-        ? `https://www.googleapis.com/books/v1/volumes?q=${encodeURIComponent(query)}&key=${this.GOOGLE_BOOKS_API_KEY}`
-        : `https://www.googleapis.com/books/v1/volumes?q=${encodeURIComponent(query)}`
+        ? `${getUpstreamUrl("googleBooks")}/volumes?q=${encodeURIComponent(query)}&maxResults=${MAX_CANDIDATES}&key=${this.GOOGLE_BOOKS_API_KEY}`
+        : `${getUpstreamUrl("googleBooks")}/volumes?q=${encodeURIComponent(query)}&maxResults=${MAX_CANDIDATES}`
 
-      const response = await axios.get(url)
+      const response = await this.http.getJson(url)
+      const fetchedAt = new Date().toISOString()
+      const items: any[] = (response.data.items || []).map((item: any) => ({ ...item, fetchedAt }))
 
-      if (response.data.items && response.data.items.length > 0) {
-        return response.data.items[0]
+      if (isbn) {
+        return items.length > 0
+          ? { id: items[0].id, match: exactMatch("googleBooks", items[0].id), value: items[0] }
+          : { id: null, match: noMatch("googleBooks") }
       }
 
-      return null
+      const candidates: MatchCandidate<any>[] = items.map((item) => ({
+        id: item.id,
+        title: item.volumeInfo?.title || "",
+        altTitles: item.volumeInfo?.subtitle ? [`${item.volumeInfo.title}: ${item.volumeInfo.subtitle}`] : undefined,
+        year: parseYear(item.volumeInfo?.publishedDate),
+        names: item.volumeInfo?.authors,
+        value: item,
+      }))
+
+      const { chosen, match } = selectMatch(
+        "googleBooks",
+        { title, year, names: author ? [author] : undefined },
+        candidates,
+      )
+      return { id: chosen?.id ?? null, match, value: chosen?.value }
     } catch (error) {
-      console.error("Google Books API error:", error)
-      return null
+      this.log.error("Google Books API error", { error })
+      throw error
     }
   }
 
@@ -53,7 +157,7 @@ export class BookScraper {
         reviews: null,
       }
     } catch (error) {
-      console.error("Goodreads scraping error:", error)
+      this.log.error("Goodreads scraping error", { error })
       return null
     }
   }
@@ -133,6 +237,7 @@ export class BookScraper {
     googleBooksResult: PromiseSettledResult<any>,
     goodreadsResult: PromiseSettledResult<any>,
     availabilityResult: PromiseSettledResult<any>,
+    match?: MatchInfo,
   ): BookResponse {
     const googleBooksData = googleBooksResult.status === "fulfilled" ? googleBooksResult.value : null
     const goodreadsData = goodreadsResult.status === "fulfilled" ? goodreadsResult.value : null
@@ -152,22 +257,42 @@ export class BookScraper {
       .replace(/[^a-z0-9]+/g, "-")
       .replace(/(^-|-$)/g, "")
 
+    const googleBooks = describeSource("googleBooks", googleBooksData, volumeInfo?.infoLink)
+    const provenance = new ProvenanceRecorder()
+    const merger = new FieldMerger(
+      getMergePolicy("book", request.mergePolicy),
+      { request: REQUEST_INPUT, googleBooks },
+      provenance,
+    )
+
     const bookResponse: BookResponse = {
       title: request.title,
       slug,
-      author: request.author
-        ? [{ name: request.author }]
-        : volumeInfo?.authors?.map((name: string) => ({ name })) || [],
-      isbn: request.isbn || volumeInfo?.industryIdentifiers?.find((id: any) => id.type === "ISBN_13")?.identifier,
-      publishedYear:
-        request.year || (volumeInfo?.publishedDate ? new Date(volumeInfo.publishedDate).getFullYear() : undefined),
+      author:
+        merger.merge("author", {
+          request: request.author ? [{ name: request.author }] : undefined,
+          googleBooks: volumeInfo?.authors?.map((name: string) => ({ name })),
+        }) || [],
+      isbn: merger.merge("isbn", {
+        request: request.isbn,
+        googleBooks: volumeInfo?.industryIdentifiers?.find((id: any) => id.type === "ISBN_13")?.identifier,
+      }),
+      publishedYear: merger.merge("publishedYear", {
+        request: request.year,
+        googleBooks: volumeInfo?.publishedDate ? new Date(volumeInfo.publishedDate).getFullYear() : undefined,
+      }),
       publisher: volumeInfo?.publisher
         ? {
             name: volumeInfo.publisher,
           }
         : undefined,
-      genres: volumeInfo?.categories || (request.genre ? [request.genre] : []),
-      language: volumeInfo?.language || "en",
+      genres:
+        merger.merge("genres", {
+          googleBooks: volumeInfo?.categories,
+          request: request.genre ? [request.genre] : undefined,
+        }) || [],
+      language:
+        provenance.pick("language", [googleBooks, volumeInfo?.language]) || provenance.fallback("language", "en"),
       pages: volumeInfo?.pageCount,
       format: ["Paperback", "Hardcover", "Ebook", "Audiobook"],
       description: volumeInfo?.description,
@@ -186,6 +311,23 @@ export class BookScraper {
         isbn13: volumeInfo?.industryIdentifiers?.find((id: any) => id.type === "ISBN_13")?.identifier,
         googleBooksId: googleBooksData?.id,
       },
+      match,
+    }
+
+    provenance.attribute(bookResponse, REQUEST_INPUT, ["title", "slug"])
+    provenance.attribute(bookResponse, googleBooks, [
+      "publisher",
+      "pages",
+      "description",
+      "ratings.googleBooks",
+      "references.isbn10",
+      "references.isbn13",
+      "references.googleBooksId",
+    ])
+    provenance.attribute(bookResponse, MERGED_AVAILABILITY, ["availableOn"])
+    if (request.provenance) {
+      bookResponse.provenance = provenance.toJSON()
+      bookResponse.conflicts = merger.getConflicts()
     }
 
     return bookResponse
@@ -1,69 +1,234 @@
-import axios from "axios"
 import * as cheerio from "cheerio"
-import type { MusicRequest, MusicResponse, StreamingPlatform } from "../types"
+import { getResponseCache, type ResponseCache } from "../cache"
+import { getHttpClient, type HttpClient } from "../http-client"
+import { logger } from "../logger"
+import { exactMatch, type MatchCandidate, noMatch, parseYear, type ResolvedMatch, selectMatch } from "../matching"
+import { FieldMerger, getMergePolicy } from "../merge-policy"
+import { observePlatformsFound } from "../metrics"
+import {
+  DEFAULT_VALUE,
+  describeSource,
+  MERGED_AVAILABILITY,
+  ProvenanceRecorder,
+  REQUEST_INPUT,
+  withFetchTime,
+} from "../provenance"
+import {
+  ignoreProgress,
+  PENDING_AVAILABILITY,
+  reportMetadata,
+  skipSource,
+  trackSource,
+  type ProgressListener,
+} from "../progress"
+import { getSelectorPack, matchAllFirst, recordPageOutcome, select } from "../selectors"
+import type {
+  MatchInfo,
+  MusicRequest,
+  MusicResponse,
+  PlatformAvailability,
+  SearchCandidate,
+  StreamingPlatform,
+} from "../types"
+import { getUpstreamUrl } from "../upstreams"
+
+const MAX_CANDIDATES = 10
 
 export class MusicScraper {
+  private readonly log = logger.child({ component: "music-scraper" })
   private readonly SPOTIFY_CLIENT_ID = process.env.SPOTIFY_CLIENT_ID
   private readonly SPOTIFY_CLIENT_SECRET = process.env.SPOTIFY_CLIENT_SECRET
+  private accessToken: Promise<string> | null = null
 
-  async scrapeMusicData(request: MusicRequest): Promise<MusicResponse> {
+  constructor(
+    private readonly http: HttpClient = getHttpClient(),
+    private readonly cache: ResponseCache = getResponseCache(),
+  ) {}
+
+  async scrapeMusicData(request: MusicRequest, onProgress: ProgressListener = ignoreProgress): Promise<MusicResponse> {
     try {
-      console.log(`[v0] Starting research for music: ${request.title} by ${request.artist}`)
+      this.log.info("Starting music research", { title: request.title, artist: request.artist })
+
+      const matchLookup = this.resolveSpotifyTrack(request)
+      const spotifyLookup =
+        this.SPOTIFY_CLIENT_ID && this.SPOTIFY_CLIENT_SECRET
+          ? trackSource(onProgress, "spotify", () =>
+              this.cache.wrap("spotify", this.getCacheParams(request), () =>
+                withFetchTime(this.getSpotifyData(request)),
+              ),
+            )
+          : skipSource(onProgress, "spotify", "Spotify credentials not provided")
+      const lyricsLookup = trackSource(onProgress, "lyrics", () =>
+        this.cache.wrap("lyrics", { title: request.title, artist: request.artist }, () =>
+          withFetchTime(this.getLyricsData(request.title, request.artist)),
+        ),
+      )
+      const metadataReported = Promise.allSettled([spotifyLookup, lyricsLookup, matchLookup]).then(
+        ([spotifyData, lyricsData, resolved]) =>
+          reportMetadata(onProgress, () =>
+            this.combineMusicData(request, spotifyData, lyricsData, PENDING_AVAILABILITY, this.getMatchInfo(resolved)),
+          ),
+      )
 
       const [spotifyData, lyricsData, streamingData] = await Promise.allSettled([
-        this.getSpotifyData(request.title, request.artist),
-        this.getLyricsData(request.title, request.artist),
-        this.getStreamingAvailability(request.title, request.artist),
+        spotifyLookup,
+        lyricsLookup,
+        trackSource(onProgress, "availability", () => this.getCachedAvailability(request)),
       ])
+      await metadataReported
 
-      console.log(`[v0] Completed music data gathering for ${request.title}`)
+      this.log.info("Completed music research", { title: request.title })
 
-      const musicData = this.combineMusicData(request, spotifyData, lyricsData, streamingData)
+      const [resolved] = await Promise.allSettled([matchLookup])
+      const musicData = this.combineMusicData(
+        request,
+        spotifyData,
+        lyricsData,
+        streamingData,
+        this.getMatchInfo(resolved),
+      )
       return musicData
     } catch (error) {
-      console.error("Error scraping music data:", error)
+      this.log.error("Error scraping music data", { error })
       throw new Error("Failed to scrape music data")
     }
   }
 
-  private async getSpotifyData(title: string, artist: string) {
+  // Includes every input the match is scored on, so a match is never reused for a request that would score differently
+  private getCacheParams(request: MusicRequest) {
+    return {
+      title: request.title,
+      artist: request.artist,
+      year: request.year,
+      album: request.album,
+      spotifyId: request.spotifyId,
+      isrc: request.isrc,
+    }
+  }
+
+  // Lightweight candidates for picking a track before researching it by spotifyId
+  async searchTracks(query: string, limit: number): Promise<SearchCandidate[]> {
     if (!this.SPOTIFY_CLIENT_ID || !this.SPOTIFY_CLIENT_SECRET) {
-      console.warn("Spotify credentials not provided")
-      return null
+      this.log.warn("Spotify credentials not provided")
+      return []
     }
 
     try {
-      console.log(`[v0] Fetching Spotify data for ${title} by ${artist}`)
+      return await this.cache.wrap("spotify", { type: "trackSearch", query, limit }, async () => {
+        const searchResponse = await this.http.getJson(
+          `${getUpstreamUrl("spotify")}/search?q=${encodeURIComponent(query)}&type=track&limit=${limit}`,
+          { headers: { Authorization: `Bearer ${await this.getSpotifyAccessToken()}` } },
+        )
+
+        return searchResponse.data.tracks.items.map((track: any): SearchCandidate => ({
+          title: track.name,
+          year: parseYear(track.album?.release_date),
+          image: track.album?.images?.[0]?.url,
+          person: track.artists?.[0]?.name,
+          externalIds: { spotifyId: track.id, isrc: track.external_ids?.isrc },
+        }))
+      })
+    } catch (error) {
+      this.log.error("Spotify search error", { error })
+      throw new Error("Failed to search music")
+    }
+  }
+
+  private getMatchInfo(resolved: PromiseSettledResult<ResolvedMatch<any> | null>): MatchInfo | undefined {
+    return resolved.status === "fulfilled" ? resolved.value?.match : undefined
+  }
 
-      // Get Spotify access token
-      const tokenResponse = await axios.post(
-        "https://accounts.spotify.com/api/token",
-        "grant_type=client_credentials",
-        {
+  // One client-credentials token serves every Spotify call made for this request
+  private getSpotifyAccessToken(): Promise<string> {
+    if (!this.accessToken) {
+      this.accessToken = this.http
+        .post(`${getUpstreamUrl("spotifyAccounts")}/api/token`, "grant_type=client_credentials", {
+          // Issuing a token has no side effects, so it is retried like a GET
+          retry: { maxAttempts: 3 },
           headers: {
             "Content-Type": "application/x-www-form-urlencoded",
             Authorization: `Basic ${Buffer.from(`${this.SPOTIFY_CLIENT_ID}:${this.SPOTIFY_CLIENT_SECRET}`).toString("base64")}`,
           },
-        },
-      )
+        })
+        .then((tokenResponse) => tokenResponse.data.access_token)
+      this.accessToken.catch(() => {
+        this.accessToken = null
+      })
+    }
+    return this.accessToken
+  }
 
-      const accessToken = tokenResponse.data.access_token
+  // Fetches the track by spotifyId or ISRC when given, otherwise scores the search results against the request
+  private async resolveSpotifyTrack(request: MusicRequest): Promise<ResolvedMatch<any> | null> {
+    if (!this.SPOTIFY_CLIENT_ID || !this.SPOTIFY_CLIENT_SECRET) return null
 
-      // Search for track
-      const searchResponse = await axios.get(
-        `https://api.spotify.com/v1/search?q=track:"${encodeURIComponent(title)}" artist:"${encodeURIComponent(artist)}"&type=track&limit=1`,
-        {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-        },
-      )
+    try {
+      return await this.cache.wrap("spotify", { ...this.getCacheParams(request), type: "trackMatch" }, async () => {
+        const headers = { Authorization: `Bearer ${await this.getSpotifyAccessToken()}` }
+
+        if (request.spotifyId) {
+          const trackResponse = await this.http.getJson(
+            `${getUpstreamUrl("spotify")}/tracks/${encodeURIComponent(request.spotifyId)}`,
+            { headers },
+          )
+          const track = trackResponse.data
+          return { id: track.id, match: exactMatch("spotify", track.id), value: track }
+        }
+
+        if (request.isrc) {
+          const searchResponse = await this.http.getJson(
+            `${getUpstreamUrl("spotify")}/search?q=isrc:${encodeURIComponent(request.isrc.replace(/-/g, ""))}&type=track&limit=1`,
+            { headers },
+          )
+          const track = searchResponse.data.tracks.items[0]
+          return track
+            ? { id: track.id, match: exactMatch("spotify", track.id), value: track }
+            : { id: null, match: noMatch("spotify") }
+        }
+
+        const searchResponse = await this.http.getJson(
+          `${getUpstreamUrl("spotify")}/search?q=track:"${encodeURIComponent(request.title)}" artist:"${encodeURIComponent(request.artist)}"&type=track&limit=${MAX_CANDIDATES}`,
+          { headers },
+        )
+        const candidates: MatchCandidate<any>[] = searchResponse.data.tracks.items.map((track: any) => ({
+          id: track.id,
+          title: track.name,
+          year: parseYear(track.album?.release_date),
+          names: [...track.artists.map((artist: any) => artist.name), track.album?.name],
+          value: track,
+        }))
+
+        const names = [request.artist, request.album].filter((name): name is string => Boolean(name))
+        const { chosen, match } = selectMatch(
+          "spotify",
+          { title: request.title, year: request.year, names },
+          candidates,
+          { penalizeVariants: true },
+        )
+        return { id: chosen?.id ?? null, match, value: chosen?.value }
+      })
+    } catch (error) {
+      this.log.error("Spotify match error", { error })
+      throw error
+    }
+  }
+
+  private async getSpotifyData(request: MusicRequest) {
+    const { title, artist } = request
+    if (!this.SPOTIFY_CLIENT_ID || !this.SPOTIFY_CLIENT_SECRET) {
+      this.log.warn("Spotify credentials not provided")
+      return null
+    }
+
+    try {
+      this.log.debug("Fetching Spotify data", { title, artist })
 
-      if (searchResponse.data.tracks.items.length === 0) {
+      const track = (await this.resolveSpotifyTrack(request))?.value
+      if (!track) {
         return null
       }
 
-      const track = searchResponse.data.tracks.items[0]
+      const accessToken = await this.getSpotifyAccessToken()
 
       const spotifyData = {
         track,
@@ -74,44 +239,44 @@ export class MusicScraper {
 
       try {
         // Get audio features
-        const audioFeaturesResponse = await axios.get(`https://api.spotify.com/v1/audio-features/${track.id}`, {
+        const audioFeaturesResponse = await this.http.getJson(`${getUpstreamUrl("spotify")}/audio-features/${track.id}`, {
           headers: { Authorization: `Bearer ${accessToken}` },
         })
         spotifyData.audioFeatures = audioFeaturesResponse.data
-      } catch (error:any) {
-        console.warn("Could not fetch audio features:", error.response?.status)
+      } catch (error) {
+        this.log.warn("Could not fetch audio features", { error })
       }
 
       try {
         // Get artist details
-        const artistResponse = await axios.get(`https://api.spotify.com/v1/artists/${track.artists[0].id}`, {
+        const artistResponse = await this.http.getJson(`${getUpstreamUrl("spotify")}/artists/${track.artists[0].id}`, {
           headers: { Authorization: `Bearer ${accessToken}` },
         })
         spotifyData.artist = artistResponse.data
-      } catch (error:any) {
-        console.warn("Could not fetch artist details:", error.response?.status)
+      } catch (error) {
+        this.log.warn("Could not fetch artist details", { error })
       }
 
       try {
         // Get album details
-        const albumResponse = await axios.get(`https://api.spotify.com/v1/albums/${track.album.id}`, {
+        const albumResponse = await this.http.getJson(`${getUpstreamUrl("spotify")}/albums/${track.album.id}`, {
           headers: { Authorization: `Bearer ${accessToken}` },
         })
         spotifyData.album = albumResponse.data
-      } catch (error:any) {
-        console.warn("Could not fetch album details:", error.response?.status)
+      } catch (error) {
+        this.log.warn("Could not fetch album details", { error })
       }
 
       return spotifyData
-    } catch (error:any) {
-      console.error("Spotify API error:", error.response?.status, error.response?.data)
-      return null
+    } catch (error) {
+      this.log.error("Spotify API error", { error })
+      throw error
     }
   }
 
   private async getLyricsData(title: string, artist: string) {
     try {
-      console.log(`[v0] Searching for lyrics: ${title} by ${artist}`)
+      this.log.debug("Searching for lyrics", { title, artist })
 
       const geniusData = await this.scrapeGeniusLyricsContent(title, artist)
       if (geniusData) {
@@ -129,8 +294,8 @@ export class MusicScraper {
         fullLyricsLink: `https://genius.com/search?q=${encodeURIComponent(artist + " " + title)}`,
       }
     } catch (error) {
-      console.error("Lyrics scraping error:", error)
-      return null
+      this.log.error("Lyrics scraping error", { error })
+      throw error
     }
   }
 
@@ -138,34 +303,25 @@ export class MusicScraper {
     try {
       const searchUrl = `https://genius.com/search?q=${encodeURIComponent(artist + " " + title)}`
 
-      const response = await axios.get(searchUrl, {
-        headers: {
-          "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-          Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-        },
-        timeout: 10000,
-      })
+      const response = await this.http.get(searchUrl)
 
       const $ = cheerio.load(response.data)
+      const pack = getSelectorPack("genius")
 
       // Find the first song result
-      const firstResult = $(".search_result").first()
+      const firstResult = select($, pack.selectors.searchResult).first()
       const songLink = firstResult.find("a").attr("href")
+      recordPageOutcome("genius", songLink ? "found" : "empty")
 
       if (songLink) {
         const fullLink = songLink.startsWith("http") ? songLink : `https://genius.com${songLink}`
 
         // Try to get actual lyrics from the song page
         try {
-          const lyricsResponse = await axios.get(fullLink, {
-            headers: {
-              "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-            },
-            timeout: 8000,
-          })
+          const lyricsResponse = await this.http.get(fullLink)
 
           const lyricsPage = cheerio.load(lyricsResponse.data)
-          const lyricsContainer = lyricsPage('[data-lyrics-container="true"], .lyrics, .Lyrics__Container-sc-1ynbvzw-6')
+          const lyricsContainer = select(lyricsPage, pack.selectors.lyrics)
 
           if (lyricsContainer.length > 0) {
             const lyricsText = lyricsContainer.text().trim()
@@ -178,7 +334,7 @@ export class MusicScraper {
             }
           }
         } catch (lyricsError) {
-          console.error("Error fetching full lyrics:", lyricsError)
+          this.log.error("Error fetching full lyrics", { error: lyricsError })
         }
 
         return {
@@ -189,7 +345,8 @@ export class MusicScraper {
 
       return null
     } catch (error) {
-      console.error("Genius scraping error:", error)
+      this.log.error("Genius scraping error", { error })
+      recordPageOutcome("genius", "failed")
       return null
     }
   }
@@ -201,12 +358,7 @@ export class MusicScraper {
       const cleanTitle = title.toLowerCase().replace(/[^a-z0-9]/g, "")
       const azUrl = `https://www.azlyrics.com/lyrics/${cleanArtist}/${cleanTitle}.html`
 
-      const response = await axios.get(azUrl, {
-        headers: {
-          "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-        },
-        timeout: 8000,
-      })
+      const response = await this.http.get(azUrl)
 
       const $ = cheerio.load(response.data)
 
@@ -234,27 +386,48 @@ export class MusicScraper {
         fullLyricsLink: azUrl,
       }
     } catch (error) {
-      console.error("AZLyrics error:", error)
+      this.log.error("AZLyrics error", { error })
       return null
     }
   }
 
-  private async getStreamingAvailability(title: string, artist: string) {
-    console.log(`[v0] Researching streaming availability for ${title} by ${artist}`)
+  // Availability where a platform lookup failed is returned but not cached, as for movie and series regions, so a short
+  // block or 5xx is retried by the next request instead of being served until the entry expires
+  private async getCachedAvailability(request: MusicRequest): Promise<PlatformAvailability> {
+    let incomplete: PlatformAvailability | undefined
+    const params = { ...this.getCacheParams(request), type: "music" }
+    const cached = await this.cache.wrap("availability", params, async () => {
+      const { availability, complete } = await this.getStreamingAvailability(request)
+      if (complete) return availability
+      incomplete = availability
+      return null
+    })
+    return cached ?? incomplete ?? { streaming: [], purchase: [] }
+  }
+
+  // The platform lookups return null when they find nothing and throw when they fail, which leaves the result
+  // incomplete
+  private async getStreamingAvailability(
+    request: MusicRequest,
+  ): Promise<{ availability: PlatformAvailability; complete: boolean }> {
+    const { title, artist } = request
+    this.log.info("Researching streaming availability", { title, artist })
 
     const streaming: StreamingPlatform[] = []
     const purchase: StreamingPlatform[] = []
+    let complete = false
 
     try {
-      const [spotifyLinks, appleMusicLinks, youtubeLinks, amazonMusicLinks, deezerLinks, tidalLinks] =
-        await Promise.allSettled([
-          this.getSpotifyStreamingLinks(title, artist),
-          this.scrapeAppleMusicDirectly(title, artist),
-          this.scrapeYouTubeDirectly(title, artist),
-          this.scrapeAmazonMusicDirectly(title, artist),
-          this.scrapeDeezerDirectly(title, artist),
-          this.scrapeTidalDirectly(title, artist),
-        ])
+      const lookups = await Promise.allSettled([
+        this.getSpotifyStreamingLinks(request),
+        this.scrapeAppleMusicDirectly(title, artist),
+        this.scrapeYouTubeDirectly(title, artist),
+        this.scrapeAmazonMusicDirectly(title, artist),
+        this.scrapeDeezerDirectly(title, artist),
+        this.scrapeTidalDirectly(title, artist),
+      ] as const)
+      const [spotifyLinks, appleMusicLinks, youtubeLinks, amazonMusicLinks, deezerLinks, tidalLinks] = lookups
+      complete = lookups.every((lookup) => lookup.status === "fulfilled")
 
       // Add results from all platforms
       if (spotifyLinks.status === "fulfilled" && spotifyLinks.value) {
@@ -283,15 +456,17 @@ export class MusicScraper {
         streaming.push(tidalLinks.value)
       }
 
-      console.log(`[v0] Found ${streaming.length} streaming and ${purchase.length} purchase options`)
+      this.log.info("Found streaming availability", { title, streaming: streaming.length, purchase: purchase.length })
     } catch (error) {
-      console.error("Error getting music streaming availability:", error)
+      this.log.error("Error getting music streaming availability", { error })
     }
 
-    return { streaming, purchase }
+    observePlatformsFound("music", { streaming, purchase })
+    return { availability: { streaming, purchase }, complete }
   }
 
-  private async getSpotifyStreamingLinks(title: string, artist: string): Promise<StreamingPlatform | null> {
+  private async getSpotifyStreamingLinks(request: MusicRequest): Promise<StreamingPlatform | null> {
+    const { title, artist } = request
     if (!this.SPOTIFY_CLIENT_ID || !this.SPOTIFY_CLIENT_SECRET) {
       return {
         platform: "Spotify",
@@ -301,30 +476,9 @@ export class MusicScraper {
     }
 
     try {
-      // Get access token
-      const tokenResponse = await axios.post(
-        "https://accounts.spotify.com/api/token",
-        "grant_type=client_credentials",
-        {
-          headers: {
-            "Content-Type": "application/x-www-form-urlencoded",
-            Authorization: `Basic ${Buffer.from(`${this.SPOTIFY_CLIENT_ID}:${this.SPOTIFY_CLIENT_SECRET}`).toString("base64")}`,
-          },
-        },
-      )
-
-      const accessToken = tokenResponse.data.access_token
-
-      // Search for the specific track
-      const searchResponse = await axios.get(
-        `https://api.spotify.com/v1/search?q=track:"${encodeURIComponent(title)}" artist:"${encodeURIComponent(artist)}"&type=track&limit=1`,
-        {
-          headers: { Authorization: `Bearer ${accessToken}` },
-        },
-      )
-
-      if (searchResponse.data.tracks.items.length > 0) {
-        const track = searchResponse.data.tracks.items[0]
+      // A failed lookup still leaves the search link below
+      const track = (await this.resolveSpotifyTrack(request).catch(() => null))?.value
+      if (track) {
         return {
           platform: "Spotify",
           link: track.external_urls.spotify,
@@ -338,8 +492,8 @@ export class MusicScraper {
         type: "subscription",
       }
     } catch (error) {
-      console.error("Spotify streaming link error:", error)
-      return null
+      this.log.error("Spotify streaming link error", { error })
+      throw error
     }
   }
 
@@ -348,29 +502,22 @@ export class MusicScraper {
     artist: string,
   ): Promise<{ streaming: StreamingPlatform; purchase: StreamingPlatform } | null> {
     try {
-      console.log(`[v0] Scraping Apple Music for ${title} by ${artist}`)
+      this.log.debug("Scraping Apple Music", { title, artist })
 
       const searchQuery = encodeURIComponent(`${artist} ${title}`)
       const searchUrl = `https://music.apple.com/search?term=${searchQuery}`
 
-      const response = await axios.get(searchUrl, {
-        headers: {
-          "User-Agent":
-            "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-          Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-          "Accept-Language": "en-US,en;q=0.9",
-        },
-        timeout: 15000,
-      })
+      const response = await this.http.get(searchUrl)
 
       const $ = cheerio.load(response.data)
+      const pack = getSelectorPack("apple-music")
 
       let trackUrl = null
 
       // Look for song results in Apple Music
-      $('[data-testid="track-lockup"], .songs-list-row, .track-lockup').each((i, element) => {
-        const songTitle = $(element).find(".songs-list-row__song-name, .track-lockup__title, h3").text().trim()
-        const artistName = $(element).find(".songs-list-row__by-line, .track-lockup__subtitle, .by-line").text().trim()
+      select($, pack.selectors.track).each((i, element) => {
+        const songTitle = select($, pack.selectors.trackTitle, $(element)).text().trim()
+        const artistName = select($, pack.selectors.trackArtist, $(element)).text().trim()
         const link = $(element).find("a").attr("href") || $(element).attr("href")
 
         if (
@@ -383,10 +530,12 @@ export class MusicScraper {
         }
       })
 
+      recordPageOutcome("apple-music", trackUrl ? "found" : "empty")
+
       // If no direct match, try iTunes Search API as fallback
       if (!trackUrl) {
         try {
-          const itunesResponse = await axios.get(
+          const itunesResponse = await this.http.getJson(
             `https://itunes.apple.com/search?term=${encodeURIComponent(`${artist} ${title}`)}&media=music&entity=song&limit=1`,
           )
 
@@ -395,7 +544,7 @@ export class MusicScraper {
             trackUrl = track.trackViewUrl
           }
         } catch (itunesError) {
-          console.error("iTunes API fallback error:", itunesError)
+          this.log.error("iTunes API fallback error", { error: itunesError })
         }
       }
 
@@ -416,45 +565,31 @@ export class MusicScraper {
 
       return null
     } catch (error) {
-      console.error("Apple Music scraping error:", error)
-      return null
+      this.log.error("Apple Music scraping error", { error })
+      recordPageOutcome("apple-music", "failed")
+      throw error
     }
   }
 
   private async scrapeYouTubeDirectly(title: string, artist: string): Promise<StreamingPlatform | null> {
     try {
-      console.log(`[v0] Scraping YouTube for ${title} by ${artist}`)
+      this.log.debug("Scraping YouTube", { title, artist })
 
       const searchQuery = encodeURIComponent(`${artist} ${title} official`)
       const youtubeSearchUrl = `https://www.youtube.com/results?search_query=${searchQuery}`
 
-      const response = await axios.get(youtubeSearchUrl, {
-        headers: {
-          "User-Agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-          Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-        },
-        timeout: 15000,
-      })
-
-      // Extract video ID from YouTube's response
-      const videoIdRegex = /"videoId":"([a-zA-Z0-9_-]{11})"/g
-      const titleRegex = /"title":{"runs":\[{"text":"([^"]+)"/g
+      const response = await this.http.get(youtubeSearchUrl)
 
-      let match
-      const videos: any[] = []
+      const pack = getSelectorPack("youtube")
 
-      // Extract all video IDs and titles
-      while ((match = videoIdRegex.exec(response.data)) !== null) {
-        const videoId = match[1]
-        videos.push({ id: videoId })
-      }
+      // Extract all video IDs and titles from YouTube's response
+      const videos: any[] = matchAllFirst(response.data, pack.patterns.videoId).map((match) => ({ id: match[1] }))
 
-      let titleIndex = 0
-      while ((match = titleRegex.exec(response.data)) !== null && titleIndex < videos.length) {
-        videos[titleIndex].title = match[1]
-        titleIndex++
+      const titles = matchAllFirst(response.data, pack.patterns.videoTitle)
+      for (let i = 0; i < Math.min(titles.length, videos.length); i++) {
+        videos[i].title = titles[i][1]
       }
+      recordPageOutcome("youtube", videos.length > 0 ? "found" : "empty")
 
       // Find the best match
       for (const video of videos) {
@@ -482,8 +617,9 @@ export class MusicScraper {
 
       return null
     } catch (error) {
-      console.error("YouTube scraping error:", error)
-      return null
+      this.log.error("YouTube scraping error", { error })
+      recordPageOutcome("youtube", "failed")
+      throw error
     }
   }
 
@@ -492,28 +628,22 @@ export class MusicScraper {
     artist: string,
   ): Promise<{ streaming: StreamingPlatform; purchase: StreamingPlatform } | null> {
     try {
-      console.log(`[v0] Scraping Amazon Music for ${title} by ${artist}`)
+      this.log.debug("Scraping Amazon Music", { title, artist })
 
       const searchQuery = encodeURIComponent(`${artist} ${title}`)
       const searchUrl = `https://music.amazon.com/search/${searchQuery}`
 
-      const response = await axios.get(searchUrl, {
-        headers: {
-          "User-Agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-          Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-        },
-        timeout: 15000,
-      })
+      const response = await this.http.get(searchUrl)
 
       const $ = cheerio.load(response.data)
+      const pack = getSelectorPack("amazon-music")
 
       let trackUrl = null
 
       // Look for track results
-      $('.music-item, .track-row, [data-testid="music-item"]').each((i, element) => {
-        const songTitle = $(element).find(".music-item__primary-text, .track-title, h3").text().trim()
-        const artistName = $(element).find(".music-item__secondary-text, .track-artist, .by-line").text().trim()
+      select($, pack.selectors.track).each((i, element) => {
+        const songTitle = select($, pack.selectors.trackTitle, $(element)).text().trim()
+        const artistName = select($, pack.selectors.trackArtist, $(element)).text().trim()
         const link = $(element).find("a").attr("href")
 
         if (
@@ -526,6 +656,8 @@ export class MusicScraper {
         }
       })
 
+      recordPageOutcome("amazon-music", trackUrl ? "found" : "empty")
+
       if (trackUrl) {
         return {
           streaming: {
@@ -543,35 +675,30 @@ export class MusicScraper {
 
       return null
     } catch (error) {
-      console.error("Amazon Music scraping error:", error)
-      return null
+      this.log.error("Amazon Music scraping error", { error })
+      recordPageOutcome("amazon-music", "failed")
+      throw error
     }
   }
 
   private async scrapeDeezerDirectly(title: string, artist: string): Promise<StreamingPlatform | null> {
     try {
-      console.log(`[v0] Scraping Deezer for ${title} by ${artist}`)
+      this.log.debug("Scraping Deezer", { title, artist })
 
       const searchQuery = encodeURIComponent(`${artist} ${title}`)
       const searchUrl = `https://www.deezer.com/search/${searchQuery}`
 
-      const response = await axios.get(searchUrl, {
-        headers: {
-          "User-Agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-          Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-        },
-        timeout: 15000,
-      })
+      const response = await this.http.get(searchUrl)
 
       const $ = cheerio.load(response.data)
+      const pack = getSelectorPack("deezer")
 
       let trackUrl = null
 
       // Look for track results in Deezer
-      $('[data-testid="track"], .track-item, .song-item').each((i, element) => {
-        const songTitle = $(element).find(".track-title, .song-title, h3").text().trim()
-        const artistName = $(element).find(".track-artist, .song-artist, .artist-name").text().trim()
+      select($, pack.selectors.track).each((i, element) => {
+        const songTitle = select($, pack.selectors.trackTitle, $(element)).text().trim()
+        const artistName = select($, pack.selectors.trackArtist, $(element)).text().trim()
         const link = $(element).find("a").attr("href")
 
         if (
@@ -584,6 +711,8 @@ export class MusicScraper {
         }
       })
 
+      recordPageOutcome("deezer", trackUrl ? "found" : "empty")
+
       if (trackUrl) {
         return {
           platform: "Deezer",
@@ -594,35 +723,30 @@ export class MusicScraper {
 
       return null
     } catch (error) {
-      console.error("Deezer scraping error:", error)
-      return null
+      this.log.error("Deezer scraping error", { error })
+      recordPageOutcome("deezer", "failed")
+      throw error
     }
   }
 
   private async scrapeTidalDirectly(title: string, artist: string): Promise<StreamingPlatform | null> {
     try {
-      console.log(`[v0] Scraping Tidal for ${title} by ${artist}`)
+      this.log.debug("Scraping Tidal", { title, artist })
 
       const searchQuery = encodeURIComponent(`${artist} ${title}`)
       const searchUrl = `https://tidal.com/search?q=${searchQuery}`
 
-      const response = await axios.get(searchUrl, {
-        headers: {
-          "User-Agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-          Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-        },
-        timeout: 15000,
-      })
+      const response = await this.http.get(searchUrl)
 
       const $ = cheerio.load(response.data)
+      const pack = getSelectorPack("tidal")
 
       let trackUrl = null
 
       // Look for track results in Tidal
-      $('[data-test="track-item"], .track-item, .media-item').each((i, element) => {
-        const songTitle = $(element).find('[data-test="track-title"], .track-title, h3').text().trim()
-        const artistName = $(element).find('[data-test="track-artist"], .track-artist, .artist-name').text().trim()
+      select($, pack.selectors.track).each((i, element) => {
+        const songTitle = select($, pack.selectors.trackTitle, $(element)).text().trim()
+        const artistName = select($, pack.selectors.trackArtist, $(element)).text().trim()
         const link = $(element).find("a").attr("href")
 
         if (
@@ -635,6 +759,8 @@ export class MusicScraper {
         }
       })
 
+      recordPageOutcome("tidal", trackUrl ? "found" : "empty")
+
       if (trackUrl) {
         return {
           platform: "Tidal",
@@ -645,8 +771,9 @@ export class MusicScraper {
 
       return null
     } catch (error) {
-      console.error("Tidal scraping error:", error)
-      return null
+      this.log.error("Tidal scraping error", { error })
+      recordPageOutcome("tidal", "failed")
+      throw error
     }
   }
 
@@ -655,9 +782,12 @@ export class MusicScraper {
     spotifyResult: PromiseSettledResult<any>,
     lyricsResult: PromiseSettledResult<any>,
     streamingResult: PromiseSettledResult<any>,
+    match?: MatchInfo,
   ): MusicResponse {
     const spotifyData = spotifyResult.status === "fulfilled" ? spotifyResult.value : null
-    const lyricsData = lyricsResult.status === "fulfilled" ? lyricsResult.value : null
+    const fetchedLyrics = lyricsResult.status === "fulfilled" ? lyricsResult.value : null
+    // The fetch time is reported through provenance rather than inside the lyrics object
+    const { fetchedAt, ...lyricsData } = fetchedLyrics || {}
     const streamingData =
       streamingResult.status === "fulfilled" ? streamingResult.value : { streaming: [], purchase: [] }
 
@@ -666,6 +796,19 @@ export class MusicScraper {
       .replace(/[^a-z0-9]+/g, "-")
       .replace(/(^-|-$)/g, "")
 
+    const spotify = describeSource("spotify", spotifyData, spotifyData?.track?.external_urls?.spotify)
+    const lyrics = describeSource(
+      fetchedLyrics?.fullLyricsLink?.includes("azlyrics.com") ? "azlyrics" : "genius",
+      fetchedLyrics,
+      fetchedLyrics?.fullLyricsLink,
+    )
+    const provenance = new ProvenanceRecorder()
+    const merger = new FieldMerger(
+      getMergePolicy("music", request.mergePolicy),
+      { request: REQUEST_INPUT, spotify },
+      provenance,
+    )
+
     const musicResponse: MusicResponse = {
       title: request.title,
       slug,
@@ -699,15 +842,29 @@ export class MusicScraper {
           }
         : undefined,
       releaseYear:
-        request.year ||
-        (spotifyData?.track?.album?.release_date
-          ? new Date(spotifyData.track.album.release_date).getFullYear()
-          : new Date().getFullYear()),
+        merger.merge("releaseYear", {
+          request: request.year,
+          spotify: spotifyData?.track?.album?.release_date
+            ? new Date(spotifyData.track.album.release_date).getFullYear()
+            : undefined,
+        }) || provenance.fallback("releaseYear", new Date().getFullYear()),
       duration: spotifyData?.track?.duration_ms
         ? `${Math.floor(spotifyData.track.duration_ms / 60000)} min ${Math.floor((spotifyData.track.duration_ms % 60000) / 1000)} sec`
         : undefined,
-      genres: spotifyData?.artist?.genres || (request.genre ? [request.genre] : []),
-      mood: spotifyData?.audioFeatures?.valence > 0.5 ? ["Happy", "Upbeat"] : ["Mellow", "Calm"],
+      genres:
+        merger.merge("genres", {
+          spotify: spotifyData?.artist?.genres,
+          request: request.genre ? [request.genre] : undefined,
+        }) || [],
+      mood:
+        provenance.pick("mood", [
+          spotify,
+          spotifyData?.audioFeatures
+            ? spotifyData.audioFeatures.valence > 0.5
+              ? ["Happy", "Upbeat"]
+              : ["Mellow", "Calm"]
+            : undefined,
+        ]) || provenance.fallback("mood", ["Mellow", "Calm"]),
       language: "English", // Default, could be enhanced with language detection
       bpm: spotifyData?.audioFeatures?.tempo ? Math.round(spotifyData.audioFeatures.tempo) : undefined,
       key:
@@ -730,13 +887,47 @@ export class MusicScraper {
             }
           : undefined,
       },
-      lyrics: lyricsData,
+      lyrics: fetchedLyrics ? lyricsData : fetchedLyrics,
       references: {
         spotifyId: spotifyData?.track?.id,
         spotifyArtistId: spotifyData?.artist?.id,
         spotifyAlbumId: spotifyData?.track?.album?.id,
         isrc: spotifyData?.track?.external_ids?.isrc,
       },
+      match,
+    }
+
+    provenance.attribute(musicResponse, REQUEST_INPUT, ["title", "slug", "artist.name"])
+    provenance.attribute(musicResponse, spotify, [
+      "artist.spotifyId",
+      "artist.genres",
+      "artist.popularity",
+      "artist.followers",
+      "artist.images",
+      "featuredArtists",
+      "album",
+      "duration",
+      "bpm",
+      "key",
+      "energy",
+      "danceability",
+      "acousticness",
+      "instrumentalness",
+      "liveness",
+      "speechiness",
+      "writers",
+      "ratings.spotify",
+      "references.spotifyId",
+      "references.spotifyArtistId",
+      "references.spotifyAlbumId",
+      "references.isrc",
+    ])
+    provenance.attribute(musicResponse, DEFAULT_VALUE, ["language", "formats"])
+    provenance.attribute(musicResponse, lyrics, ["lyrics"])
+    provenance.attribute(musicResponse, MERGED_AVAILABILITY, ["availableOn"])
+    if (request.provenance) {
+      musicResponse.provenance = provenance.toJSON()
+      musicResponse.conflicts = merger.getConflicts()
     }
 
     return musicResponse
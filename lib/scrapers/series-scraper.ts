@@ -1,47 +1,230 @@
-import axios from "axios"
 import * as cheerio from "cheerio"
-import type { SeriesRequest, SeriesResponse, StreamingPlatform } from "../types"
+import { getResponseCache, type ResponseCache } from "../cache"
+import { getHttpClient, type HttpClient } from "../http-client"
+import { logger } from "../logger"
+import { exactMatch, type MatchCandidate, noMatch, parseYear, type ResolvedMatch, selectMatch } from "../matching"
+import { FieldMerger, getMergePolicy } from "../merge-policy"
+import { observePlatformsFound } from "../metrics"
+import { platformRegistry, type PlatformRegistry } from "../platforms"
+import {
+  ignoreProgress,
+  PENDING_AVAILABILITY,
+  reportCachedSource,
+  reportMetadata,
+  skipSource,
+  trackSource,
+  type ProgressListener,
+} from "../progress"
+import { describeSource, MERGED_AVAILABILITY, ProvenanceRecorder, REQUEST_INPUT, withFetchTime } from "../provenance"
+import { getAvailabilityRateLimiter, type RateLimiter } from "../rate-limiter"
+import { buildRegionalAvailability, DEFAULT_REGION, getJustWatchCountry, resolveRegions } from "../regions"
+import { getSelectorPack, recordPageOutcome, select } from "../selectors"
+import type {
+  MatchInfo,
+  PlatformAvailability,
+  SearchCandidate,
+  SeriesRequest,
+  SeriesResponse,
+  StreamingPlatform,
+} from "../types"
+import { getUpstreamUrl } from "../upstreams"
+
+const MAX_CANDIDATES = 10
+const MAX_ENRICHED_CANDIDATES = 5
+
+interface TMDBWatchProviders {
+  seriesId: string
+  // Providers keyed by region code
+  results: Record<string, any>
+}
 
 export class SeriesScraper {
+  private readonly log = logger.child({ component: "series-scraper" })
   private readonly TMDB_API_KEY = process.env.TMDB_API_KEY
 
-  async scrapeSeriesData(request: SeriesRequest): Promise<SeriesResponse> {
+  constructor(
+    private readonly http: HttpClient = getHttpClient(),
+    private readonly cache: ResponseCache = getResponseCache(),
+    private readonly platforms: PlatformRegistry = platformRegistry,
+    private readonly limiter: RateLimiter = getAvailabilityRateLimiter(),
+  ) {}
+
+  async scrapeSeriesData(
+    request: SeriesRequest,
+    onProgress: ProgressListener = ignoreProgress,
+  ): Promise<SeriesResponse> {
     try {
+      const matchLookup = this.resolveTMDBSeries(request)
+      const tmdbLookup = this.TMDB_API_KEY
+        ? trackSource(onProgress, "tmdb", () =>
+            this.cache.wrap("tmdb", this.getCacheParams(request), () => withFetchTime(this.getTMDBSeriesData(request))),
+          )
+        : skipSource(onProgress, "tmdb", "TMDB API key not provided")
+      const metadataReported = Promise.allSettled([tmdbLookup, matchLookup]).then(([tmdbData, resolved]) =>
+        reportMetadata(onProgress, () =>
+          this.combineSeriesData(request, tmdbData, PENDING_AVAILABILITY, this.getMatchInfo(resolved)),
+        ),
+      )
+
       const [tmdbData, streamingData] = await Promise.allSettled([
-        this.getTMDBSeriesData(request.title, request.year),
-        this.getStreamingAvailability(request.title),
+        tmdbLookup,
+        this.getStreamingAvailability(request, this.getDefaultRegion(request), onProgress),
       ])
+      await metadataReported
 
-      const seriesData = this.combineSeriesData(request, tmdbData, streamingData)
+      const [resolved] = await Promise.allSettled([matchLookup])
+      const seriesData = this.combineSeriesData(request, tmdbData, streamingData, this.getMatchInfo(resolved))
       return seriesData
     } catch (error) {
-      console.error("Error scraping series data:", error)
+      this.log.error("Error scraping series data", { error })
       throw new Error("Failed to scrape series data")
     }
   }
 
-  private async getTMDBSeriesData(title: string, year?: number) {
+  // Includes every input the match is scored on, so a match is never reused for a request that would score differently
+  private getCacheParams(request: SeriesRequest) {
+    return {
+      type: "series",
+      title: request.title,
+      year: request.year,
+      creator: request.creator,
+      network: request.network,
+      tmdbId: request.tmdbId,
+      imdbId: request.imdbId,
+    }
+  }
+
+  private getMatchInfo(resolved: PromiseSettledResult<ResolvedMatch | null>): MatchInfo | undefined {
+    return resolved.status === "fulfilled" ? resolved.value?.match : undefined
+  }
+
+  // Lightweight candidates for picking a series before researching it by tmdbId
+  async searchSeries(query: string, limit: number): Promise<SearchCandidate[]> {
     if (!this.TMDB_API_KEY) {
-      console.warn("TMDB API key not provided")
-      return null
+      this.log.warn("TMDB API key not provided")
+      return []
     }
 
     try {
-      const searchQuery = year
-        ? `https://api.themoviedb.org/3/search/tv?api_key=${this.TMDB_API_KEY}&query=${encodeURIComponent(title)}&first_air_date_year=${year}`
-        : `https://api.themoviedb.org/3/search/tv?api_key=${this.TMDB_API_KEY}&query=${encodeURIComponent(title)}`
+      return await this.cache.wrap("tmdb", { type: "seriesSearch", query, limit }, async () => {
+        const searchResponse = await this.http.getJson(
+          `${getUpstreamUrl("tmdb")}/search/tv?api_key=${this.TMDB_API_KEY}&query=${encodeURIComponent(query)}`,
+        )
+        const results: any[] = (searchResponse.data.results || []).slice(0, limit)
+
+        return Promise.all(
+          results.map(async (series) => {
+            const candidate: SearchCandidate = {
+              title: series.name,
+              year: parseYear(series.first_air_date),
+              image: series.poster_path ? `https://image.tmdb.org/t/p/w185${series.poster_path}` : undefined,
+              externalIds: { tmdbId: String(series.id) },
+            }
+
+            try {
+              const details = await this.http.getJson(
+                `${getUpstreamUrl("tmdb")}/tv/${series.id}?api_key=${this.TMDB_API_KEY}&append_to_response=external_ids`,
+              )
+              candidate.person = details.data.created_by?.[0]?.name
+              candidate.externalIds.imdbId = details.data.external_ids?.imdb_id || undefined
+            } catch (error) {
+              this.log.warn("Could not fetch details for TMDB search result", { tmdbId: series.id, error })
+            }
+
+            return candidate
+          }),
+        )
+      })
+    } catch (error) {
+      this.log.error("TMDB series search error", { error })
+      throw new Error("Failed to search series")
+    }
+  }
+
+  private async resolveTMDBSeriesId(request: SeriesRequest): Promise<string | null> {
+    return (await this.resolveTMDBSeries(request))?.id ?? null
+  }
 
-      const searchResponse = await axios.get(searchQuery)
+  // Picks the TMDB series by tmdbId or imdbId when given, otherwise scores the search results against the request
+  private async resolveTMDBSeries(request: SeriesRequest): Promise<ResolvedMatch | null> {
+    if (request.tmdbId) return { id: request.tmdbId, match: exactMatch("tmdb", request.tmdbId) }
+    if (!this.TMDB_API_KEY) return null
 
-      if (searchResponse.data.results.length === 0) {
+    try {
+      return await this.cache.wrap("tmdb", { ...this.getCacheParams(request), type: "seriesMatch" }, async () => {
+        if (request.imdbId) {
+          const findResponse = await this.http.getJson(
+            `${getUpstreamUrl("tmdb")}/find/${encodeURIComponent(request.imdbId)}?api_key=${this.TMDB_API_KEY}&external_source=imdb_id`,
+          )
+          const series = findResponse.data.tv_results?.[0]
+          return series
+            ? { id: String(series.id), match: exactMatch("tmdb", String(series.id)) }
+            : { id: null, match: noMatch("tmdb") }
+        }
+
+        const searchQuery = request.year
+          ? `${getUpstreamUrl("tmdb")}/search/tv?api_key=${this.TMDB_API_KEY}&query=${encodeURIComponent(request.title)}&first_air_date_year=${request.year}`
+          : `${getUpstreamUrl("tmdb")}/search/tv?api_key=${this.TMDB_API_KEY}&query=${encodeURIComponent(request.title)}`
+
+        const searchResponse = await this.http.getJson(searchQuery)
+        const candidates: MatchCandidate[] = (searchResponse.data.results || [])
+          .slice(0, MAX_CANDIDATES)
+          .map((series: any) => ({
+            id: String(series.id),
+            title: series.name,
+            altTitles: [series.original_name],
+            year: parseYear(series.first_air_date),
+            value: undefined,
+          }))
+
+        const names = [request.creator, request.network].filter((name): name is string => Boolean(name))
+        if (names.length > 0) {
+          await this.addCreatorNames(candidates.slice(0, MAX_ENRICHED_CANDIDATES))
+        }
+
+        const { chosen, match } = selectMatch("tmdb", { title: request.title, year: request.year, names }, candidates)
+        return { id: chosen?.id ?? null, match }
+      })
+    } catch (error) {
+      this.log.error("TMDB series match error", { error })
+      throw error
+    }
+  }
+
+  // Creators and networks, only fetched for the leading candidates when the request names them
+  private async addCreatorNames(candidates: MatchCandidate[]): Promise<void> {
+    await Promise.all(
+      candidates.map(async (candidate) => {
+        try {
+          const details = await this.http.getJson(
+            `${getUpstreamUrl("tmdb")}/tv/${candidate.id}?api_key=${this.TMDB_API_KEY}`,
+          )
+          candidate.names = [
+            ...(details.data.created_by || []).map((creator: any) => creator.name),
+            ...(details.data.networks || []).map((network: any) => network.name),
+          ]
+        } catch (error) {
+          this.log.warn("Could not fetch details for TMDB candidate", { tmdbId: candidate.id, error })
+        }
+      }),
+    )
+  }
+
+  private async getTMDBSeriesData(request: SeriesRequest) {
+    if (!this.TMDB_API_KEY) {
+      this.log.warn("TMDB API key not provided")
+      return null
+    }
+
+    try {
+      const seriesId = await this.resolveTMDBSeriesId(request)
+      if (!seriesId) {
         return null
       }
 
-      const seriesId = searchResponse.data.results[0].id
-
       const [seriesDetails, credits] = await Promise.all([
-        axios.get(`https://api.themoviedb.org/3/tv/${seriesId}?api_key=${this.TMDB_API_KEY}`),
-        axios.get(`https://api.themoviedb.org/3/tv/${seriesId}/credits?api_key=${this.TMDB_API_KEY}`),
+        this.http.getJson(`${getUpstreamUrl("tmdb")}/tv/${seriesId}?api_key=${this.TMDB_API_KEY}`),
+        this.http.getJson(`${getUpstreamUrl("tmdb")}/tv/${seriesId}/credits?api_key=${this.TMDB_API_KEY}`),
       ])
 
       return {
@@ -49,33 +232,116 @@ export class SeriesScraper {
         credits: credits.data,
       }
     } catch (error) {
-      console.error("TMDB TV API error:", error)
-      return null
+      this.log.error("TMDB TV API error", { error })
+      throw error
     }
   }
 
-  private async getStreamingAvailability(title: string): Promise<{
-    streaming: StreamingPlatform[]
-    purchase: StreamingPlatform[]
-  }> {
-    console.log(`[v0] Researching streaming availability for series: ${title}`)
+  private async getStreamingAvailability(
+    request: SeriesRequest,
+    defaultRegion: string,
+    onProgress: ProgressListener,
+  ): Promise<{ [region: string]: PlatformAvailability }> {
+    const { title } = request
+    const regions = await resolveRegions(request.regions, defaultRegion, this.http, this.cache)
+    this.log.info("Researching streaming availability", { title, regions })
+
+    // Fetched on the first region that misses the cache, then shared by the others
+    let watchProviders: Promise<TMDBWatchProviders | null> | undefined
+    const getWatchProviders = () => (watchProviders ??= this.fetchTMDBWatchProviders(request))
+
+    const availability = await Promise.all(
+      regions.map((region) =>
+        trackSource(
+          onProgress,
+          "availability",
+          () => this.getCachedRegionAvailability(request, region, onProgress, getWatchProviders),
+          region,
+        ),
+      ),
+    )
+
+    const result: { [region: string]: PlatformAvailability } = {}
+    regions.forEach((region, index) => {
+      result[region] = availability[index]
+      observePlatformsFound("series", availability[index])
+    })
+    return result
+  }
 
+  // A region where a source failed is returned but not cached, so a short block or 5xx is retried by the next request
+  // instead of being served as "no availability" until the entry expires. When the result comes from the cache (or
+  // from another request's fetch) its sources are reported as cached; events of a background revalidation that
+  // finishes after this request are not forwarded to it
+  private async getCachedRegionAvailability(
+    request: SeriesRequest,
+    region: string,
+    onProgress: ProgressListener,
+    getWatchProviders: () => Promise<TMDBWatchProviders | null>,
+  ): Promise<PlatformAvailability> {
+    let incomplete: PlatformAvailability | undefined
+    let fetched = false
+    let live = true
+    const listener: ProgressListener = (event) => {
+      if (live) onProgress(event)
+    }
+
+    const cached = await this.cache.wrap("availability", { ...this.getCacheParams(request), region }, () =>
+      this.limiter.schedule(async () => {
+        const { availability, complete } = await this.getRegionAvailability(request, region, listener, getWatchProviders)
+        fetched = true
+        if (complete) return availability
+        incomplete = availability
+        return null
+      }),
+    )
+    live = false
+
+    if (!fetched) {
+      reportCachedSource(onProgress, "justwatch", region)
+      if (this.TMDB_API_KEY) reportCachedSource(onProgress, "tmdbWatchProviders", region)
+      else skipSource(onProgress, "tmdbWatchProviders", "TMDB API key not provided", region)
+    }
+    return cached ?? incomplete ?? { streaming: [], purchase: [] }
+  }
+
+  private getDefaultRegion(request: SeriesRequest): string {
+    return request.region?.toUpperCase() || DEFAULT_REGION
+  }
+
+  private async getRegionAvailability(
+    request: SeriesRequest,
+    region: string,
+    onProgress: ProgressListener,
+    getWatchProviders: () => Promise<TMDBWatchProviders | null>,
+  ): Promise<{ availability: PlatformAvailability; complete: boolean }> {
+    const { title } = request
     const streaming: StreamingPlatform[] = []
     const purchase: StreamingPlatform[] = []
 
     try {
+      const titleSearchAllowed = await this.hasConfidentMatch(request)
       const [justWatchData, tmdbWatchData] = await Promise.allSettled([
-        this.scrapeJustWatchSeries(title),
-        this.getTMDBSeriesWatchProviders(title),
+        titleSearchAllowed
+          ? trackSource(onProgress, "justwatch", () => this.scrapeJustWatchSeries(title, region), region)
+          : skipSource(onProgress, "justwatch", "No confident TMDB match to search by title for", region),
+        this.TMDB_API_KEY
+          ? trackSource(
+              onProgress,
+              "tmdbWatchProviders",
+              () => this.getTMDBSeriesWatchProviders(request, region, getWatchProviders),
+              region,
+            )
+          : skipSource(onProgress, "tmdbWatchProviders", "TMDB API key not provided", region),
       ])
 
       // Combine results from all sources
-      if (justWatchData.status === "fulfilled") {
+      if (justWatchData.status === "fulfilled" && justWatchData.value) {
         streaming.push(...justWatchData.value.streaming)
         purchase.push(...justWatchData.value.purchase)
       }
 
-      if (tmdbWatchData.status === "fulfilled") {
+      if (tmdbWatchData.status === "fulfilled" && tmdbWatchData.value) {
         streaming.push(...tmdbWatchData.value.streaming)
         purchase.push(...tmdbWatchData.value.purchase)
       }
@@ -84,59 +350,86 @@ export class SeriesScraper {
       const uniqueStreaming = this.removeDuplicatePlatforms(streaming)
       const uniquePurchase = this.removeDuplicatePlatforms(purchase)
 
-      // Only add fallbacks if no real data found
-      if (uniqueStreaming.length === 0) {
-        console.log(`[v0] No streaming data found for ${title}, adding search fallbacks`)
+      // Only add fallbacks if no real data found; they are US storefront searches, so other regions go without, and
+      // like JustWatch they search by title, so they are left out when the series was not confidently identified
+      if (titleSearchAllowed && region === "US" && uniqueStreaming.length === 0) {
+        this.log.debug("No streaming data found, adding search fallbacks", { title, region })
         uniqueStreaming.push(...this.getFallbackStreamingPlatforms(title))
       }
 
-      if (uniquePurchase.length === 0) {
+      if (titleSearchAllowed && region === "US" && uniquePurchase.length === 0) {
         uniquePurchase.push(...this.getFallbackPurchasePlatforms(title))
       }
 
-      console.log(
-        `[v0] Found ${uniqueStreaming.length} streaming and ${uniquePurchase.length} purchase options for ${title}`,
-      )
+      this.log.info("Found streaming availability", {
+        title,
+        region,
+        streaming: uniqueStreaming.length,
+        purchase: uniquePurchase.length,
+      })
 
-      return { streaming: uniqueStreaming, purchase: uniquePurchase }
+      return {
+        availability: { streaming: uniqueStreaming, purchase: uniquePurchase },
+        complete: justWatchData.status === "fulfilled" && tmdbWatchData.status === "fulfilled",
+      }
     } catch (error) {
-      console.error("Error getting streaming availability:", error)
-      return { streaming: [], purchase: [] }
+      this.log.error("Error getting streaming availability", { region, error })
+      return { availability: { streaming: [], purchase: [] }, complete: false }
     }
   }
 
-  private async getTMDBSeriesWatchProviders(title: string) {
+  // JustWatch is searched by title alone, so it is only used once TMDB has confidently identified the series (or could
+  // not be asked); after an ambiguous or empty match it would return the availability of any series with that title
+  private async hasConfidentMatch(request: SeriesRequest): Promise<boolean> {
+    try {
+      const resolved = await this.resolveTMDBSeries(request)
+      return !resolved || resolved.id !== null
+    } catch {
+      return true
+    }
+  }
+
+  // TMDB answers watch/providers for every region at once, so one fetch serves all regions of a request
+  private async fetchTMDBWatchProviders(request: SeriesRequest): Promise<TMDBWatchProviders | null> {
+    const seriesId = await this.resolveTMDBSeriesId(request)
+    if (!seriesId) return null
+
+    const watchResponse = await this.http.getJson(
+      `${getUpstreamUrl("tmdb")}/tv/${seriesId}/watch/providers?api_key=${this.TMDB_API_KEY}`,
+    )
+    return { seriesId, results: watchResponse.data.results || {} }
+  }
+
+  private async getTMDBSeriesWatchProviders(
+    request: SeriesRequest,
+    region: string,
+    getWatchProviders: () => Promise<TMDBWatchProviders | null>,
+  ) {
+    const { title } = request
     const streaming: StreamingPlatform[] = []
     const purchase: StreamingPlatform[] = []
 
     if (!this.TMDB_API_KEY) return { streaming, purchase }
 
     try {
-      const searchResponse = await axios.get(
-        `https://api.themoviedb.org/3/search/tv?api_key=${this.TMDB_API_KEY}&query=${encodeURIComponent(title)}`,
-      )
-
-      if (searchResponse.data.results.length === 0) {
-        return { streaming, purchase }
+      const watchProviders = await getWatchProviders()
+      if (!watchProviders) {
+        return null
       }
 
-      const seriesId = searchResponse.data.results[0].id
-      const watchResponse = await axios.get(
-        `https://api.themoviedb.org/3/tv/${seriesId}/watch/providers?api_key=${this.TMDB_API_KEY}`,
-      )
-
-      const usProviders = watchResponse.data.results?.US
-      if (!usProviders) return { streaming, purchase }
+      const { seriesId } = watchProviders
+      const regionProviders = watchProviders.results[region]
+      if (!regionProviders) return { streaming, purchase }
 
-      const tmdbWatchUrl = `https://www.themoviedb.org/tv/${seriesId}/watch?locale=US`
+      const tmdbWatchUrl = `https://www.themoviedb.org/tv/${seriesId}/watch?locale=${region}`
       const actualLinks = await this.scrapeTMDBWatchPage(tmdbWatchUrl)
 
       // Add streaming providers with actual URLs
-      if (usProviders.flatrate) {
-        for (const provider of usProviders.flatrate) {
+      if (regionProviders.flatrate) {
+        for (const provider of regionProviders.flatrate) {
           const actualLink =
             actualLinks[provider.provider_name.toLowerCase()] ||
-            (await this.findActualStreamingLink(provider.provider_name, title))
+            (await this.findActualLink(provider.provider_name, title, region))
 
           streaming.push({
             platform: provider.provider_name,
@@ -147,11 +440,11 @@ export class SeriesScraper {
       }
 
       // Add purchase/rent providers with actual URLs
-      if (usProviders.buy) {
-        for (const provider of usProviders.buy) {
+      if (regionProviders.buy) {
+        for (const provider of regionProviders.buy) {
           const actualLink =
             actualLinks[provider.provider_name.toLowerCase()] ||
-            (await this.findActualPurchaseLink(provider.provider_name, title))
+            (await this.findActualLink(provider.provider_name, title, region))
 
           purchase.push({
             platform: provider.provider_name,
@@ -161,7 +454,8 @@ export class SeriesScraper {
         }
       }
     } catch (error) {
-      console.error("TMDB series watch providers error:", error)
+      this.log.error("TMDB series watch providers error", { error })
+      throw error
     }
 
     return { streaming, purchase }
@@ -171,21 +465,15 @@ export class SeriesScraper {
     const links: Record<string, string> = {}
 
     try {
-      console.log(`[v0] Scraping TMDB watch page: ${tmdbUrl}`)
-
-      const response = await axios.get(tmdbUrl, {
-        headers: {
-          "User-Agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
-          Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
-        },
-        timeout: 10000,
-      })
+      this.log.debug("Scraping TMDB watch page", { url: tmdbUrl })
+
+      const response = await this.http.get(tmdbUrl)
 
       const $ = cheerio.load(response.data)
+      const pack = getSelectorPack("tmdb-watch")
 
       // Look for streaming platform links
-      $(".provider").each((i, element) => {
+      select($, pack.selectors.providerOffer).each((i, element) => {
         const $element = $(element)
         const platformName = $element.find("img").attr("alt")?.toLowerCase()
         const link = $element.attr("href") || $element.find("a").attr("href")
@@ -196,312 +484,93 @@ export class SeriesScraper {
       })
 
       // Also look for direct links in watch buttons
-      $('a[href*="netflix.com"], a[href*="amazon.com"], a[href*="hulu.com"], a[href*="disneyplus.com"]').each(
-        (i, element) => {
-          const href = $(element).attr("href")
-          if (href && !href.includes("themoviedb.org")) {
-            const platform = this.extractPlatformFromUrl(href)
-            if (platform) {
-              links[platform] = href.startsWith("http") ? href : `https:${href}`
-            }
+      select($, pack.selectors.directLink).each((i, element) => {
+        const href = $(element).attr("href")
+        if (href && !href.includes("themoviedb.org")) {
+          const platform = this.extractPlatformFromUrl(href)
+          if (platform) {
+            links[platform] = href.startsWith("http") ? href : `https:${href}`
           }
-        },
-      )
-    } catch (error) {
-      console.error("Error scraping TMDB watch page:", error)
-    }
-
-    return links
-  }
-
-  private async findActualStreamingLink(platform: string, title: string): Promise<string | null> {
-    const platformLower = platform.toLowerCase()
-
-    try {
-      if (platformLower.includes("netflix")) {
-        return await this.searchNetflixSeries(title)
-      } else if (platformLower.includes("amazon") || platformLower.includes("prime")) {
-        return await this.searchAmazonPrimeSeries(title)
-      } else if (platformLower.includes("hulu")) {
-        return await this.searchHuluSeries(title)
-      } else if (platformLower.includes("disney")) {
-        return await this.searchDisneyPlusSeries(title)
-      } else if (platformLower.includes("hbo")) {
-        return await this.searchHBOMaxSeries(title)
-      }
-    } catch (error) {
-      console.error(`Error finding ${platform} link for ${title}:`, error)
-    }
-
-    return null
-  }
-
-  private async findActualPurchaseLink(platform: string, title: string): Promise<string | null> {
-    const platformLower = platform.toLowerCase()
-
-    try {
-      if (platformLower.includes("amazon")) {
-        return await this.searchAmazonVideoSeries(title)
-      } else if (platformLower.includes("apple")) {
-        return await this.searchAppleTVSeries(title)
-      } else if (platformLower.includes("google")) {
-        return await this.searchGooglePlaySeries(title)
-      } else if (platformLower.includes("vudu")) {
-        return await this.searchVuduSeries(title)
-      }
-    } catch (error) {
-      console.error(`Error finding ${platform} purchase link for ${title}:`, error)
-    }
-
-    return null
-  }
-
-  private async searchNetflixSeries(title: string): Promise<string | null> {
-    try {
-      const searchQuery = `site:netflix.com "${title}" tv series`
-      const googleUrl = `https://www.google.com/search?q=${encodeURIComponent(searchQuery)}`
-
-      const response = await axios.get(googleUrl, {
-        headers: { "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36" },
-        timeout: 5000,
-      })
-
-      const $ = cheerio.load(response.data)
-      const netflixLink = $('a[href*="netflix.com/title/"]').first().attr("href")
-
-      if (netflixLink && !netflixLink.includes("google.com")) {
-        return netflixLink.startsWith("http") ? netflixLink : `https:${netflixLink}`
-      }
-    } catch (error) {
-      console.error("Netflix series search error:", error)
-    }
-    return null
-  }
-
-  private async searchAmazonPrimeSeries(title: string): Promise<string | null> {
-    try {
-      const searchQuery = `site:amazon.com "${title}" prime video tv series`
-      const googleUrl = `https://www.google.com/search?q=${encodeURIComponent(searchQuery)}`
-
-      const response = await axios.get(googleUrl, {
-        headers: { "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36" },
-        timeout: 5000,
-      })
-
-      const $ = cheerio.load(response.data)
-      const amazonLink = $('a[href*="amazon.com/"][href*="/dp/"], a[href*="amazon.com/gp/video"]').first().attr("href")
-
-      if (amazonLink && !amazonLink.includes("google.com")) {
-        return amazonLink.startsWith("http") ? amazonLink : `https:${amazonLink}`
-      }
-    } catch (error) {
-      console.error("Amazon Prime series search error:", error)
-    }
-    return null
-  }
-
-  private async searchHuluSeries(title: string): Promise<string | null> {
-    try {
-      const searchQuery = `site:hulu.com "${title}" tv series`
-      const googleUrl = `https://www.google.com/search?q=${encodeURIComponent(searchQuery)}`
-
-      const response = await axios.get(googleUrl, {
-        headers: { "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36" },
-        timeout: 5000,
-      })
-
-      const $ = cheerio.load(response.data)
-      const huluLink = $('a[href*="hulu.com/series/"], a[href*="hulu.com/watch/"]').first().attr("href")
-
-      if (huluLink && !huluLink.includes("google.com")) {
-        return huluLink.startsWith("http") ? huluLink : `https:${huluLink}`
-      }
-    } catch (error) {
-      console.error("Hulu series search error:", error)
-    }
-    return null
-  }
-
-  private async searchDisneyPlusSeries(title: string): Promise<string | null> {
-    try {
-      const searchQuery = `site:disneyplus.com "${title}" tv series`
-      const googleUrl = `https://www.google.com/search?q=${encodeURIComponent(searchQuery)}`
-
-      const response = await axios.get(googleUrl, {
-        headers: { "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36" },
-        timeout: 5000,
-      })
-
-      const $ = cheerio.load(response.data)
-      const disneyLink = $('a[href*="disneyplus.com/series/"], a[href*="disneyplus.com/video/"]').first().attr("href")
-
-      if (disneyLink && !disneyLink.includes("google.com")) {
-        return disneyLink.startsWith("http") ? disneyLink : `https:${disneyLink}`
-      }
-    } catch (error) {
-      console.error("Disney+ series search error:", error)
-    }
-    return null
-  }
-
-  private async searchHBOMaxSeries(title: string): Promise<string | null> {
-    try {
-      const searchQuery = `site:max.com "${title}" tv series OR site:hbomax.com "${title}"`
-      const googleUrl = `https://www.google.com/search?q=${encodeURIComponent(searchQuery)}`
-
-      const response = await axios.get(googleUrl, {
-        headers: { "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36" },
-        timeout: 5000,
+        }
       })
 
-      const $ = cheerio.load(response.data)
-      const hboLink = $('a[href*="max.com/"], a[href*="hbomax.com/"]').first().attr("href")
-
-      if (hboLink && !hboLink.includes("google.com")) {
-        return hboLink.startsWith("http") ? hboLink : `https:${hboLink}`
-      }
+      recordPageOutcome("tmdb-watch", Object.keys(links).length > 0 ? "found" : "empty")
     } catch (error) {
-      console.error("HBO Max series search error:", error)
+      this.log.error("Error scraping TMDB watch page", { error })
+      recordPageOutcome("tmdb-watch", "failed")
     }
-    return null
-  }
-
-  private async searchAmazonVideoSeries(title: string): Promise<string | null> {
-    return this.searchAmazonPrimeSeries(title) // Same logic for purchase
-  }
 
-  private async searchAppleTVSeries(title: string): Promise<string | null> {
-    try {
-      const searchQuery = `site:tv.apple.com "${title}" tv series`
-      const googleUrl = `https://www.google.com/search?q=${encodeURIComponent(searchQuery)}`
-
-      const response = await axios.get(googleUrl, {
-        headers: { "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36" },
-        timeout: 5000,
-      })
-
-      const $ = cheerio.load(response.data)
-      const appleLink = $('a[href*="tv.apple.com/"]').first().attr("href")
-
-      if (appleLink && !appleLink.includes("google.com")) {
-        return appleLink.startsWith("http") ? appleLink : `https:${appleLink}`
-      }
-    } catch (error) {
-      console.error("Apple TV series search error:", error)
-    }
-    return null
+    return links
   }
 
-  private async searchGooglePlaySeries(title: string): Promise<string | null> {
-    try {
-      const searchQuery = `site:play.google.com "${title}" tv series`
-      const googleUrl = `https://www.google.com/search?q=${encodeURIComponent(searchQuery)}`
-
-      const response = await axios.get(googleUrl, {
-        headers: { "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36" },
-        timeout: 5000,
-      })
-
-      const $ = cheerio.load(response.data)
-      const googlePlayLink = $('a[href*="play.google.com/store/tv/"]').first().attr("href")
-
-      if (googlePlayLink && !googlePlayLink.includes("google.com/search")) {
-        return googlePlayLink.startsWith("http") ? googlePlayLink : `https:${googlePlayLink}`
-      }
-    } catch (error) {
-      console.error("Google Play series search error:", error)
-    }
-    return null
-  }
+  private async findActualLink(platform: string, title: string, region: string): Promise<string | null> {
+    const adapter = this.platforms.findForProvider(platform, "series", region)
+    if (!adapter?.resolveLink) return null
 
-  private async searchVuduSeries(title: string): Promise<string | null> {
     try {
-      const searchQuery = `site:vudu.com "${title}" tv series`
-      const googleUrl = `https://www.google.com/search?q=${encodeURIComponent(searchQuery)}`
-
-      const response = await axios.get(googleUrl, {
-        headers: { "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36" },
-        timeout: 5000,
-      })
-
-      const $ = cheerio.load(response.data)
-      const vuduLink = $('a[href*="vudu.com/content/movies/"]').first().attr("href")
-
-      if (vuduLink && !vuduLink.includes("google.com")) {
-        return vuduLink.startsWith("http") ? vuduLink : `https:${vuduLink}`
-      }
+      return await adapter.resolveLink({ title, kind: "series", region }, this.http)
     } catch (error) {
-      console.error("Vudu series search error:", error)
+      this.log.error("Error finding platform link", { platform, title, error })
+      return null
     }
-    return null
   }
 
   private extractPlatformFromUrl(url: string): string | null {
-    if (url.includes("netflix.com")) return "netflix"
-    if (url.includes("amazon.com")) return "amazon prime video"
-    if (url.includes("hulu.com")) return "hulu"
-    if (url.includes("disneyplus.com")) return "disney+"
-    if (url.includes("max.com") || url.includes("hbomax.com")) return "hbo max"
-    if (url.includes("tv.apple.com")) return "apple tv"
-    return null
+    return this.platforms.findByUrl(url)?.name.toLowerCase() ?? null
   }
 
-  private async scrapeJustWatchSeries(title: string) {
+  private async scrapeJustWatchSeries(title: string, region: string) {
     const streaming: StreamingPlatform[] = []
     const purchase: StreamingPlatform[] = []
 
     try {
-      console.log(`[v0] Scraping JustWatch for series: ${title}`)
+      this.log.debug("Scraping JustWatch", { title, region })
 
-      const searchUrl = `https://www.justwatch.com/us/search?q=${encodeURIComponent(title)}&content_type=show`
+      const country = getJustWatchCountry(region)
+      const searchUrl = `https://www.justwatch.com/${country}/search?q=${encodeURIComponent(title)}&content_type=show`
 
-      const response = await axios.get(searchUrl, {
-        headers: {
-          "User-Agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
-          Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
-        },
-        timeout: 10000,
-      })
+      const response = await this.http.get(searchUrl)
 
       const $ = cheerio.load(response.data)
+      const pack = getSelectorPack("justwatch")
 
       // Look for series titles and streaming info
-      $(".title-list-row").each((i, element) => {
-        const seriesTitle = $(element).find(".title").text().trim()
+      select($, pack.selectors.titleRow).each((i, element) => {
+        const seriesTitle = select($, pack.selectors.title, $(element)).text().trim()
 
         if (seriesTitle.toLowerCase().includes(title.toLowerCase())) {
-          $(element)
-            .find(".offer")
-            .each((j, offer) => {
-              const platform = $(offer).find("img").attr("alt") || $(offer).attr("title")
-              const link = $(offer).attr("href") || $(offer).find("a").attr("href")
-
-              if (platform && link) {
-                const fullLink = link.startsWith("http") ? link : `https://www.justwatch.com${link}`
-
-                const offerType =
-                  $(offer).hasClass("free") || $(offer).hasClass("subscription") ? "subscription" : "buy"
-
-                if (offerType === "subscription") {
-                  streaming.push({
-                    platform: platform,
-                    link: fullLink,
-                    type: "subscription",
-                  })
-                } else {
-                  purchase.push({
-                    platform: platform,
-                    link: fullLink,
-                    type: "buy",
-                  })
-                }
+          select($, pack.selectors.offer, $(element)).each((j, offer) => {
+            const platform = $(offer).find("img").attr("alt") || $(offer).attr("title")
+            const link = $(offer).attr("href") || $(offer).find("a").attr("href")
+
+            if (platform && link) {
+              const fullLink = link.startsWith("http") ? link : `https://www.justwatch.com${link}`
+
+              const offerType = $(offer).hasClass("free") || $(offer).hasClass("subscription") ? "subscription" : "buy"
+
+              if (offerType === "subscription") {
+                streaming.push({
+                  platform: platform,
+                  link: fullLink,
+                  type: "subscription",
+                })
+              } else {
+                purchase.push({
+                  platform: platform,
+                  link: fullLink,
+                  type: "buy",
+                })
               }
-            })
+            }
+          })
         }
       })
+
+      recordPageOutcome("justwatch", streaming.length + purchase.length > 0 ? "found" : "empty")
     } catch (error) {
-      console.error("JustWatch series scraping error:", error)
+      this.log.error("JustWatch series scraping error", { error })
+      recordPageOutcome("justwatch", "failed")
+      throw error
     }
 
     return { streaming, purchase }
@@ -558,27 +627,42 @@ export class SeriesScraper {
     request: SeriesRequest,
     tmdbResult: PromiseSettledResult<any>,
     streamingResult: PromiseSettledResult<any>,
+    match?: MatchInfo,
   ): SeriesResponse {
     const tmdbData = tmdbResult.status === "fulfilled" ? tmdbResult.value : null
-    const streamingData =
-      streamingResult.status === "fulfilled" ? streamingResult.value : { streaming: [], purchase: [] }
+    const streamingData = streamingResult.status === "fulfilled" ? streamingResult.value : {}
 
     const slug = request.title
       .toLowerCase()
       .replace(/[^a-z0-9]+/g, "-")
       .replace(/(^-|-$)/g, "")
 
+    const tmdb = describeSource(
+      "tmdb",
+      tmdbData,
+      tmdbData?.details?.id ? `https://www.themoviedb.org/tv/${tmdbData.details.id}` : undefined,
+    )
+    const provenance = new ProvenanceRecorder()
+    const merger = new FieldMerger(
+      getMergePolicy("series", request.mergePolicy),
+      { request: REQUEST_INPUT, tmdb },
+      provenance,
+    )
+
     const seriesResponse: SeriesResponse = {
       title: request.title,
-      year:
-        request.year ||
-        (tmdbData?.details?.first_air_date ? new Date(tmdbData.details.first_air_date).getFullYear() : undefined),
+      year: merger.merge("year", {
+        request: request.year,
+        tmdb: tmdbData?.details?.first_air_date ? new Date(tmdbData.details.first_air_date).getFullYear() : undefined,
+      }),
       slug,
       rated: tmdbData?.details?.content_ratings?.results?.find((r: any) => r.iso_3166_1 === "US")?.rating,
       released: tmdbData?.details?.first_air_date,
       plot: tmdbData?.details?.overview,
       runtime: tmdbData?.details?.episode_run_time,
-      seriesType: tmdbData?.details?.type || "TV Series",
+      seriesType:
+        provenance.pick("seriesType", [tmdb, tmdbData?.details?.type]) ||
+        provenance.fallback("seriesType", "TV Series"),
       genres: tmdbData?.details?.genres?.map((g: any) => g.name) || [],
       language: tmdbData?.details?.languages || [],
       country: tmdbData?.details?.production_countries?.map((c: any) => c.name) || [],
@@ -628,10 +712,37 @@ export class SeriesScraper {
             publicId: tmdbData.details.poster_path,
           }
         : undefined,
-      availableOn: streamingData,
+      availableOn: buildRegionalAvailability(streamingData, this.getDefaultRegion(request)),
       references: {
         tmdbId: tmdbData?.details?.id?.toString(),
       },
+      match,
+    }
+
+    provenance.attribute(seriesResponse, REQUEST_INPUT, ["title", "slug"])
+    provenance.attribute(seriesResponse, tmdb, [
+      "rated",
+      "released",
+      "plot",
+      "runtime",
+      "genres",
+      "language",
+      "country",
+      "seasons",
+      "episodes",
+      "status",
+      "creators",
+      "cast",
+      "production.companies",
+      "production.networks",
+      "ratings.tmdb",
+      "poster",
+      "references.tmdbId",
+    ])
+    provenance.attribute(seriesResponse, MERGED_AVAILABILITY, ["availableOn"])
+    if (request.provenance) {
+      seriesResponse.provenance = provenance.toJSON()
+      seriesResponse.conflicts = merger.getConflicts()
     }
 
     return seriesResponse
@@ -0,0 +1,185 @@
+import type { Cheerio, CheerioAPI } from "cheerio"
+import { readdirSync, readFileSync } from "fs"
+import path from "path"
+import { z } from "zod"
+import { type ExtractionOutcome, getDriftMonitor } from "../drift"
+import { logger } from "../logger"
+import { BUILT_IN_PACKS, type SiteName } from "./packs"
+import type { PatternEntry, SelectorChain, SelectorPack } from "./types"
+
+export { BUILT_IN_PACKS, type SiteName } from "./packs"
+export type { PatternEntry, SelectorChain, SelectorPack } from "./types"
+
+type PackFor<S extends SiteName> = (typeof BUILT_IN_PACKS)[S]
+
+const SelectorPackFileSchema = z
+  .object({
+    site: z.string().min(1),
+    version: z.number().int().positive(),
+    selectors: z.record(z.array(z.string().min(1)).min(1)).optional(),
+    patterns: z
+      .record(
+        z
+          .array(
+            z
+              .object({ pattern: z.string().min(1), flags: z.string().optional(), platform: z.string().optional() })
+              .strict(),
+          )
+          .min(1),
+      )
+      .optional(),
+  })
+  .strict()
+
+let packs: Map<string, SelectorPack> | null = null
+// Site and name of every loaded chain other than the pack's optional ones, so extractions can be reported to the drift
+// monitor by the chain alone
+const chainNames = new WeakMap<object, { site: string; name: string }>()
+
+export function getSelectorPack<S extends SiteName>(site: S): PackFor<S> {
+  if (!packs) {
+    packs = loadPacks(process.env.SELECTOR_PACKS_DIR)
+    for (const pack of packs.values()) {
+      for (const [name, chain] of [...Object.entries(pack.selectors), ...Object.entries(pack.patterns)]) {
+        if (pack.optional?.includes(name)) continue
+        chainNames.set(chain, { site: pack.site, name })
+      }
+    }
+  }
+  return packs.get(site) as PackFor<S>
+}
+
+export function getSelectorPacks(): SelectorPack[] {
+  return (Object.keys(BUILT_IN_PACKS) as SiteName[]).map((site) => getSelectorPack(site))
+}
+
+// Tries each selector of the chain under `root` (the whole document when omitted) and returns the first non-empty
+// selection, or an empty one when every selector misses
+export function select($: CheerioAPI, chain: SelectorChain, root?: Cheerio<any>): Cheerio<any> {
+  for (const selector of chain) {
+    const found = root ? root.find(selector) : $(selector)
+    if (found.length > 0) {
+      recordChain(chain, "found")
+      return found
+    }
+  }
+  recordChain(chain, "empty")
+  return $([])
+}
+
+// First match of the first pattern in the chain that matches, with its capture groups
+export function matchFirst(text: string, chain: PatternEntry[]): RegExpExecArray | null {
+  for (const { pattern } of chain) {
+    const match = new RegExp(pattern.source, pattern.flags.replace("g", "")).exec(text)
+    if (match) {
+      recordChain(chain, "found")
+      return match
+    }
+  }
+  recordChain(chain, "empty")
+  return null
+}
+
+// Every match of the first pattern in the chain that matches anything
+export function matchAllFirst(text: string, chain: PatternEntry[]): RegExpMatchArray[] {
+  for (const { pattern } of chain) {
+    const matches = findAll(text, pattern)
+    if (matches.length > 0) {
+      recordChain(chain, "found")
+      return matches
+    }
+  }
+  recordChain(chain, "empty")
+  return []
+}
+
+// Pages that could not be fetched or parsed count against the site as a whole, since no selector ever runs on them
+export function recordPageOutcome(site: SiteName, outcome: ExtractionOutcome): void {
+  getDriftMonitor().record(site, "page", outcome)
+}
+
+export function findAll(text: string, pattern: RegExp): RegExpMatchArray[] {
+  return [...text.matchAll(pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`))]
+}
+
+function recordChain(chain: object, outcome: ExtractionOutcome): void {
+  const owner = chainNames.get(chain)
+  if (owner) getDriftMonitor().record(owner.site, owner.name, outcome)
+}
+
+// Built-in packs, replaced chain by chain from `<site>.json` files in SELECTOR_PACKS_DIR, so a markup change can be
+// patched by configuration; an override that is not newer than the built-in pack is stale and ignored
+function loadPacks(dir?: string): Map<string, SelectorPack> {
+  const loaded = new Map<string, SelectorPack>(Object.entries(BUILT_IN_PACKS))
+  if (!dir) return loaded
+
+  let files: string[]
+  try {
+    files = readdirSync(dir).filter((file) => file.endsWith(".json"))
+  } catch (error) {
+    logger.error("Could not read selector packs", { dir, error })
+    return loaded
+  }
+
+  for (const file of files) {
+    const location = path.join(dir, file)
+    try {
+      const parsed = SelectorPackFileSchema.safeParse(JSON.parse(readFileSync(location, "utf8")))
+      if (!parsed.success) {
+        logger.error("Ignoring invalid selector pack", { file: location, issues: parsed.error.issues })
+        continue
+      }
+
+      const override = parsed.data
+      const builtIn = loaded.get(override.site)
+      if (!builtIn) {
+        logger.warn("Ignoring selector pack for unknown site", { file: location, site: override.site })
+      } else if (override.version <= builtIn.version) {
+        logger.warn("Ignoring stale selector pack", {
+          file: location,
+          site: override.site,
+          version: override.version,
+          builtInVersion: builtIn.version,
+        })
+      } else {
+        loaded.set(override.site, applyOverride(builtIn, override, location))
+        logger.info("Loaded selector pack", { file: location, site: override.site, version: override.version })
+      }
+    } catch (error) {
+      logger.error("Could not read selector pack", { file: location, error })
+    }
+  }
+
+  return loaded
+}
+
+// Chains the scrapers do not know about are dropped, so a typo cannot silently replace nothing
+function applyOverride(
+  builtIn: SelectorPack,
+  override: z.infer<typeof SelectorPackFileSchema>,
+  file: string,
+): SelectorPack {
+  const pack: SelectorPack = {
+    ...builtIn,
+    version: override.version,
+    selectors: { ...builtIn.selectors },
+    patterns: { ...builtIn.patterns },
+  }
+
+  for (const [name, chain] of Object.entries(override.selectors || {})) {
+    if (name in pack.selectors) pack.selectors[name] = chain
+    else logger.warn("Ignoring unknown selector in pack", { file, site: pack.site, selector: name })
+  }
+  for (const [name, entries] of Object.entries(override.patterns || {})) {
+    if (name in pack.patterns) {
+      pack.patterns[name] = entries.map(({ pattern, flags, platform }) => ({
+        pattern: new RegExp(pattern, flags),
+        platform,
+      }))
+    } else {
+      logger.warn("Ignoring unknown pattern in pack", { file, site: pack.site, pattern: name })
+    }
+  }
+
+  return pack
+}
@@ -0,0 +1,144 @@
+import type { SelectorPack } from "./types"
+
+const justwatch = {
+  site: "justwatch",
+  version: 2,
+  selectors: {
+    titleRow: [".title-list-row"],
+    title: [".title"],
+    subtitle: [".subtitle"],
+    offer: [".offer"],
+  },
+  patterns: {},
+  optional: ["subtitle", "offer"],
+} satisfies SelectorPack
+
+const tmdbWatch = {
+  site: "tmdb-watch",
+  version: 3,
+  selectors: {
+    justWatchLink: ['a[href*="justwatch.com"]'],
+    providerOffer: [".ott_offer", ".provider", ".streaming_option"],
+    providerName: [".provider_name"],
+    directLink: ['a[href*="netflix.com"], a[href*="amazon.com"], a[href*="hulu.com"], a[href*="disneyplus.com"]'],
+  },
+  patterns: {
+    // JustWatch offers embedded in the page's inline scripts
+    offersJson: [{ pattern: /"offers":\s*\[(.*?)\]/s }],
+    providerUrl: [
+      { pattern: /https:\/\/www\.netflix\.com\/title\/\d+/g, platform: "Netflix" },
+      { pattern: /https:\/\/www\.amazon\.com\/[^"'\s]*\/dp\/[A-Z0-9]+/g, platform: "Amazon Prime Video" },
+      { pattern: /https:\/\/watch\.amazon\.com\/detail\/[A-Z0-9]+/g, platform: "Amazon Prime Video" },
+      { pattern: /https:\/\/app\.primevideo\.com\/detail\/[A-Z0-9]+/g, platform: "Amazon Prime Video" },
+      { pattern: /https:\/\/www\.hulu\.com\/movie\/[^"'\s]+/g, platform: "Hulu" },
+      { pattern: /https:\/\/www\.hulu\.com\/watch\/[^"'\s]+/g, platform: "Hulu" },
+      { pattern: /https:\/\/tv\.apple\.com\/[^"'\s]+/g, platform: "Apple TV" },
+      { pattern: /https:\/\/www\.disneyplus\.com\/[^"'\s]+/g, platform: "Disney+" },
+      { pattern: /https:\/\/play\.hbomax\.com\/[^"'\s]+/g, platform: "HBO Max" },
+      { pattern: /https:\/\/(?:www|play)\.max\.com\/[^"'\s?]+/g, platform: "HBO Max" },
+      { pattern: /https:\/\/www\.paramountplus\.com\/[^"'\s]+/g, platform: "Paramount+" },
+      { pattern: /https:\/\/www\.youtube\.com\/watch\?v=[A-Za-z0-9_-]{11}/g, platform: "YouTube" },
+      { pattern: /https:\/\/play\.google\.com\/store\/movies\/details\/[^"'\s?]+/g, platform: "Google Play" },
+      { pattern: /https:\/\/www\.lionsgateplay\.com\/[^"'\s?]+/g, platform: "Lionsgate Play" },
+      { pattern: /https:\/\/www\.lionsgate\.com\/[^"'\s?]+/g, platform: "Lionsgate" },
+      { pattern: /https:\/\/www\.rakuten\.tv\/[^"'\s?]+/g, platform: "Rakuten TV" },
+      { pattern: /https:\/\/www\.skystore\.com\/[^"'\s?]+/g, platform: "SKY Store" },
+      { pattern: /https:\/\/store\.cineplex\.com\/[^"'\s?]+/g, platform: "Cineplex" },
+      { pattern: /https:\/\/watch\.plex\.tv\/[^"'\s?]+/g, platform: "Plex" },
+      { pattern: /https:\/\/athome\.fandango\.com\/[^"'\s?]+/g, platform: "Fandango" },
+      { pattern: /https:\/\/www\.vudu\.com\/[^"'\s?]+/g, platform: "Vudu" },
+      { pattern: /https:\/\/www\.microsoft\.com\/[^"'\s?]+/g, platform: "Microsoft Store" },
+      { pattern: /https:\/\/therokuchannel\.roku\.com\/[^"'\s?]+/g, platform: "Roku Channel" },
+      { pattern: /https:\/\/(?:www\.)?tubitv\.com\/[^"'\s?]+/g, platform: "Tubi TV" },
+      { pattern: /https:\/\/www\.crackle\.com\/[^"'\s?]+/g, platform: "Crackle" },
+      { pattern: /https:\/\/www\.peacocktv\.com\/[^"'\s?]+/g, platform: "Peacock" },
+      { pattern: /https:\/\/www\.sho\.com\/[^"'\s?]+/g, platform: "Showtime" },
+      { pattern: /https:\/\/www\.starz\.com\/[^"'\s?]+/g, platform: "Starz" },
+      { pattern: /https:\/\/www\.mgmplus\.com\/[^"'\s?]+/g, platform: "Epix" },
+      { pattern: /https:\/\/www\.cinemax\.com\/[^"'\s?]+/g, platform: "Cinemax" },
+      { pattern: /https:\/\/www\.hbomax\.com\/[^"'\s?]+/g, platform: "HBO Max" },
+      { pattern: /https:\/\/www\.discoveryplus\.com\/[^"'\s?]+/g, platform: "Discovery+" },
+      { pattern: /https:\/\/www\.funimation\.com\/[^"'\s?]+/g, platform: "Funimation" },
+      { pattern: /https:\/\/www\.crunchyroll\.com\/[^"'\s?]+/g, platform: "Crunchyroll" },
+    ],
+  },
+  optional: ["providerName", "offersJson"],
+} satisfies SelectorPack
+
+const genius = {
+  site: "genius",
+  version: 1,
+  selectors: {
+    searchResult: [".search_result"],
+    lyrics: ['[data-lyrics-container="true"]', ".lyrics", ".Lyrics__Container-sc-1ynbvzw-6"],
+  },
+  patterns: {},
+} satisfies SelectorPack
+
+const appleMusic = {
+  site: "apple-music",
+  version: 1,
+  selectors: {
+    track: ['[data-testid="track-lockup"]', ".songs-list-row", ".track-lockup"],
+    trackTitle: [".songs-list-row__song-name", ".track-lockup__title", "h3"],
+    trackArtist: [".songs-list-row__by-line", ".track-lockup__subtitle", ".by-line"],
+  },
+  patterns: {},
+} satisfies SelectorPack
+
+const amazonMusic = {
+  site: "amazon-music",
+  version: 1,
+  selectors: {
+    track: [".music-item", ".track-row", '[data-testid="music-item"]'],
+    trackTitle: [".music-item__primary-text", ".track-title", "h3"],
+    trackArtist: [".music-item__secondary-text", ".track-artist", ".by-line"],
+  },
+  patterns: {},
+} satisfies SelectorPack
+
+const deezer = {
+  site: "deezer",
+  version: 1,
+  selectors: {
+    track: ['[data-testid="track"]', ".track-item", ".song-item"],
+    trackTitle: [".track-title", ".song-title", "h3"],
+    trackArtist: [".track-artist", ".song-artist", ".artist-name"],
+  },
+  patterns: {},
+} satisfies SelectorPack
+
+const tidal = {
+  site: "tidal",
+  version: 1,
+  selectors: {
+    track: ['[data-test="track-item"]', ".track-item", ".media-item"],
+    trackTitle: ['[data-test="track-title"]', ".track-title", "h3"],
+    trackArtist: ['[data-test="track-artist"]', ".track-artist", ".artist-name"],
+  },
+  patterns: {},
+} satisfies SelectorPack
+
+// YouTube's results page is rendered client-side, so videos are read from the initial data blob instead of markup
+const youtube = {
+  site: "youtube",
+  version: 1,
+  selectors: {},
+  patterns: {
+    videoId: [{ pattern: /"videoId":"([a-zA-Z0-9_-]{11})"/g }],
+    videoTitle: [{ pattern: /"title":{"runs":\[{"text":"([^"]+)"/g }],
+  },
+} satisfies SelectorPack
+
+export const BUILT_IN_PACKS = {
+  justwatch,
+  "tmdb-watch": tmdbWatch,
+  genius,
+  "apple-music": appleMusic,
+  "amazon-music": amazonMusic,
+  deezer,
+  tidal,
+  youtube,
+}
+
+export type SiteName = keyof typeof BUILT_IN_PACKS
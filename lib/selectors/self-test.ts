@@ -0,0 +1,97 @@
+import * as cheerio from "cheerio"
+import { existsSync, readdirSync, readFileSync } from "fs"
+import path from "path"
+import { findAll, getSelectorPacks } from "./index"
+import type { PatternEntry, SelectorChain } from "./types"
+
+export type ChainStatus = "ok" | "fallback" | "broken"
+
+export interface ChainReport {
+  kind: "selector" | "pattern"
+  status: ChainStatus
+  // First entry of the chain that matched a fixture; absent when nothing did
+  matchedBy?: string
+  // Entries that match no fixture of the site
+  unmatched: string[]
+}
+
+export interface SiteReport {
+  version: number
+  fixtures: string[]
+  chains: Record<string, ChainReport>
+}
+
+export interface SelfTestReport {
+  status: ChainStatus
+  fixturesDir: string
+  timestamp: string
+  sites: Record<string, SiteReport>
+}
+
+export const DEFAULT_FIXTURES_DIR = "fixtures/selectors"
+
+// Runs every pack against the pages stored under `<dir>/<site>/*.html`: a chain is "ok" when its first entry still
+// matches, "fallback" when only a later entry does (the primary has drifted) and "broken" when nothing matches. A
+// lookup table mapping URL shapes to platforms applies every entry, so it is "ok" as long as any of them matches; its
+// unmatched entries are still listed. Sites without fixtures are reported with no chains rather than as broken.
+export function runSelectorSelfTest(dir = process.env.SELECTOR_FIXTURES_DIR || DEFAULT_FIXTURES_DIR): SelfTestReport {
+  const sites: Record<string, SiteReport> = {}
+
+  for (const pack of getSelectorPacks()) {
+    const pages = readFixtures(path.join(dir, pack.site))
+    const report: SiteReport = { version: pack.version, fixtures: pages.map((page) => page.name), chains: {} }
+    sites[pack.site] = report
+    if (pages.length === 0) continue
+
+    const documents = pages.map((page) => cheerio.load(page.html))
+    for (const [name, chain] of Object.entries(pack.selectors)) {
+      report.chains[name] = checkSelectors(chain, documents)
+    }
+    for (const [name, entries] of Object.entries(pack.patterns)) {
+      report.chains[name] = checkPatterns(entries, pages)
+    }
+  }
+
+  return { status: worstStatus(sites), fixturesDir: dir, timestamp: new Date().toISOString(), sites }
+}
+
+function readFixtures(dir: string): { name: string; html: string }[] {
+  if (!existsSync(dir)) return []
+  return readdirSync(dir)
+    .filter((file) => file.endsWith(".html"))
+    .sort()
+    .map((file) => ({ name: file, html: readFileSync(path.join(dir, file), "utf8") }))
+}
+
+function checkSelectors(chain: SelectorChain, documents: cheerio.CheerioAPI[]): ChainReport {
+  const matched = chain.filter((selector) => documents.some(($) => $(selector).length > 0))
+  return summarize("selector", chain, matched, true)
+}
+
+function checkPatterns(entries: PatternEntry[], pages: { html: string }[]): ChainReport {
+  const chain = entries.map(({ pattern }) => String(pattern))
+  const matched = entries
+    .filter(({ pattern }) => pages.some((page) => findAll(page.html, pattern).length > 0))
+    .map(({ pattern }) => String(pattern))
+  const lookupTable = entries.some((entry) => entry.platform)
+  return summarize("pattern", chain, matched, !lookupTable)
+}
+
+function summarize(kind: ChainReport["kind"], chain: string[], matched: string[], ordered: boolean): ChainReport {
+  const unmatched = chain.filter((entry) => !matched.includes(entry))
+  const matchedBy = chain.find((entry) => matched.includes(entry))
+
+  let status: ChainStatus
+  if (!matchedBy) status = "broken"
+  else if (ordered && matchedBy !== chain[0]) status = "fallback"
+  else status = "ok"
+
+  return { kind, status, matchedBy, unmatched }
+}
+
+function worstStatus(sites: Record<string, SiteReport>): ChainStatus {
+  const statuses = Object.values(sites).flatMap((site) => Object.values(site.chains).map((chain) => chain.status))
+  if (statuses.includes("broken")) return "broken"
+  if (statuses.includes("fallback")) return "fallback"
+  return "ok"
+}
@@ -0,0 +1,20 @@
+// Ordered fallbacks: the first selector that matches anything is used, so a redesign is handled by putting the new
+// selector first while the old one keeps working for pages still served with the previous markup
+export type SelectorChain = string[]
+
+export interface PatternEntry {
+  pattern: RegExp
+  // Set in lookup tables that map a URL shape to the platform it belongs to; such tables apply every entry
+  platform?: string
+}
+
+export interface SelectorPack {
+  site: string
+  // Bumped with every change to the pack; an override file only applies when it is newer than the built-in pack
+  version: number
+  selectors: Record<string, SelectorChain>
+  patterns: Record<string, PatternEntry[]>
+  // Chains run per row or per script that often have nothing to match, e.g. a row without a release year; they are
+  // not reported to the drift monitor, since an empty result is normal for them
+  optional?: string[]
+}
@@ -0,0 +1,81 @@
+import { logger } from "./logger"
+import { SourceReporter, type ProgressEvent } from "./progress"
+import { runResearch, type ResearchRequestMap, type ResearchType } from "./research"
+
+// Streams a lookup as Server-Sent Events:
+//   metadata     - the document without availableOn, as soon as the metadata sources resolve
+//   availability - one region's platforms (movies/series) or the full availableOn (music/books)
+//   progress     - any other source starting, finishing, failing or being skipped
+//   sources      - the final outcome and latency of every source, same as the regular endpoint's `sources`
+//   result       - the final merged document, same as the regular endpoint's `data`
+//   error        - the lookup failed; the stream ends after it
+export function streamResearch<T extends ResearchType>(
+  type: T,
+  body: ResearchRequestMap[T],
+  signal?: AbortSignal,
+): Response {
+  const encoder = new TextEncoder()
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      signal?.addEventListener("abort", () => {
+        closed = true
+      })
+
+      const sources = new SourceReporter((event) => sendProgress(send, event))
+      try {
+        const result = await runResearch(type, body, sources.listener)
+        send("sources", sources.toJSON())
+        send("result", result)
+      } catch (error) {
+        logger.error("Research stream error", { type, error })
+        send("sources", sources.toJSON())
+        send("error", {
+          error: `Failed to research ${type} data`,
+          message: error instanceof Error ? error.message : "Unknown error",
+        })
+      } finally {
+        if (!closed) {
+          closed = true
+          controller.close()
+        }
+      }
+    },
+    cancel() {
+      closed = true
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Stops nginx-style proxies from buffering the stream
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
+
+function sendProgress(send: (event: string, data: unknown) => void, event: ProgressEvent): void {
+  if (event.source === "metadata") {
+    send("metadata", event.data)
+  } else if (event.source === "availability" && event.status === "completed") {
+    send("availability", event.region ? { region: event.region, ...(event.data as object) } : event.data)
+  } else {
+    // Raw upstream payloads stay server-side; clients only see the status
+    send("progress", {
+      source: event.source,
+      region: event.region,
+      status: event.status,
+      outcome: event.outcome,
+      latencyMs: event.latencyMs,
+    })
+  }
+}
@@ -5,6 +5,16 @@ export interface MovieRequest {
   director?: string
   cast?: string[]
   genre?: string
+  // ISO 3166-1 alpha-2 region whose platforms fill the flattened availableOn lists (default "US")
+  region?: string
+  // Regions to research availability for; "all" covers every region TMDB has provider data for
+  regions?: string[] | "all"
+  // When given, these are looked up directly instead of searching by title
+  imdbId?: string
+  tmdbId?: string
+  // Adds a provenance section naming the source of every field
+  provenance?: boolean
+  mergePolicy?: MergePolicyOverride
 }
 
 export interface SeriesRequest {
@@ -13,6 +23,12 @@ export interface SeriesRequest {
   creator?: string
   network?: string
   genre?: string
+  region?: string
+  regions?: string[] | "all"
+  imdbId?: string
+  tmdbId?: string
+  provenance?: boolean
+  mergePolicy?: MergePolicyOverride
 }
 
 export interface MusicRequest {
@@ -21,6 +37,10 @@ export interface MusicRequest {
   year?: number
   album?: string
   genre?: string
+  spotifyId?: string
+  isrc?: string
+  provenance?: boolean
+  mergePolicy?: MergePolicyOverride
 }
 
 export interface BookRequest {
@@ -29,6 +49,41 @@ export interface BookRequest {
   year?: number
   isbn?: string
   genre?: string
+  provenance?: boolean
+  mergePolicy?: MergePolicyOverride
+}
+
+export interface FieldProvenance {
+  // Upstream the value came from, e.g. "tmdb", "omdb", "spotify", "genius" or "googleBooks".
+  // "request" marks caller input, "default" a hard-coded fallback and "availability" the platform lists from the availability lookups
+  source: string
+  // Every source that contributed when list values were combined under the "union" strategy
+  mergedFrom?: string[]
+  fetchedAt?: string
+  url?: string
+}
+
+// Keyed by dotted response field path, e.g. "runtime" or "ratings.imdb"
+export type Provenance = Record<string, FieldProvenance>
+
+export type MergeStrategy = "first" | "union"
+
+export interface FieldPolicy {
+  // Sources in priority order, e.g. ["tmdb", "omdb"]
+  sources: string[]
+  // "first" keeps the highest-priority value, "union" combines list values from every source
+  strategy: MergeStrategy
+}
+
+// Keyed by response field path, like Provenance
+export type MergePolicy = Record<string, FieldPolicy>
+export type MergePolicyOverride = Record<string, Partial<FieldPolicy>>
+
+export interface FieldConflict {
+  field: string
+  // Source whose value was kept
+  chosen: string
+  values: Record<string, unknown>
 }
 
 export interface StreamingPlatform {
@@ -38,6 +93,51 @@ export interface StreamingPlatform {
   price?: string
 }
 
+export interface MatchAlternative {
+  id: string
+  title: string
+  year?: number
+  confidence: number
+}
+
+// How the upstream record behind a response was picked; "ambiguous" means no candidate was trusted enough to use
+export interface MatchInfo {
+  source: string
+  status: "exact" | "matched" | "ambiguous" | "not_found"
+  confidence: number
+  id?: string
+  alternatives: MatchAlternative[]
+}
+
+// Named after the request fields they can be passed back as
+export interface ExternalIds {
+  tmdbId?: string
+  imdbId?: string
+  spotifyId?: string
+  isrc?: string
+  isbn?: string
+}
+
+export interface SearchCandidate {
+  title: string
+  year?: number
+  image?: string
+  // Director, creator, artist or author
+  person?: string
+  externalIds: ExternalIds
+}
+
+export interface PlatformAvailability {
+  streaming: StreamingPlatform[]
+  purchase: StreamingPlatform[]
+}
+
+// Availability for every researched region, with the requested default region flattened to the top level
+export interface RegionalAvailability extends PlatformAvailability {
+  region: string
+  regions: { [region: string]: PlatformAvailability }
+}
+
 export interface MovieResponse {
   title: string
   year: number
@@ -87,14 +187,15 @@ export interface MovieResponse {
     url: string
     language: string
   }
-  availableOn: {
-    streaming: StreamingPlatform[]
-    purchase: StreamingPlatform[]
-  }
+  availableOn: RegionalAvailability
   references: {
     imdbId?: string
     tmdbId?: string
   }
+  // How the upstream record was picked, with runner-up candidates when it was a search
+  match?: MatchInfo
+  provenance?: Provenance
+  conflicts?: FieldConflict[]
 }
 
 export interface SeriesResponse {
@@ -144,14 +245,14 @@ export interface SeriesResponse {
     url: string
     publicId: string
   }
-  availableOn: {
-    streaming: StreamingPlatform[]
-    purchase: StreamingPlatform[]
-  }
+  availableOn: RegionalAvailability
   references: {
     tmdbId?: string
     imdbId?: string
   }
+  match?: MatchInfo
+  provenance?: Provenance
+  conflicts?: FieldConflict[]
 }
 
 export interface MusicResponse {
@@ -197,26 +298,7 @@ export interface MusicResponse {
     name: string
     tmdbId?: string
   }>
-  availableOn: {
-    spotify?: {
-      plays?: string
-      link: string
-    }
-    appleMusic?: {
-      plays?: string
-      link: string
-    }
-    youtube?: {
-      views?: string
-      link: string
-    }
-    amazonMusic?: {
-      link: string
-    }
-    deezer?: {
-      link: string
-    }
-  }
+  availableOn: PlatformAvailability
   ratings: {
     metacritic?: { score: number; votes: number }
     pitchfork?: { score: number }
@@ -243,6 +325,9 @@ export interface MusicResponse {
   liveness?:any
   instrumentalness?:any
   
+  match?: MatchInfo
+  provenance?: Provenance
+  conflicts?: FieldConflict[]
 }
 
 export interface BookResponse {
@@ -291,4 +376,7 @@ export interface BookResponse {
     goodreadsId?: string
     googleBooksId?: string
   }
+  match?: MatchInfo
+  provenance?: Provenance
+  conflicts?: FieldConflict[]
 }
\ No newline at end of file
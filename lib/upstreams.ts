@@ -0,0 +1,22 @@
+export type Upstream = "tmdb" | "omdb" | "spotify" | "spotifyAccounts" | "googleBooks"
+
+const DEFAULT_BASE_URLS: Record<Upstream, string> = {
+  tmdb: "https://api.themoviedb.org/3",
+  omdb: "http://www.omdbapi.com",
+  spotify: "https://api.spotify.com/v1",
+  spotifyAccounts: "https://accounts.spotify.com",
+  googleBooks: "https://www.googleapis.com/books/v1",
+}
+
+const BASE_URL_ENV: Record<Upstream, string> = {
+  tmdb: "TMDB_BASE_URL",
+  omdb: "OMDB_BASE_URL",
+  spotify: "SPOTIFY_BASE_URL",
+  spotifyAccounts: "SPOTIFY_ACCOUNTS_BASE_URL",
+  googleBooks: "GOOGLE_BOOKS_BASE_URL",
+}
+
+// Base URL of an upstream API without a trailing slash, overridable per upstream, e.g. to point at the mock server
+export function getUpstreamUrl(upstream: Upstream): string {
+  return (process.env[BASE_URL_ENV[upstream]] || DEFAULT_BASE_URLS[upstream]).replace(/\/+$/, "")
+}
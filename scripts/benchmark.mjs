@@ -0,0 +1,432 @@
+// Scores the research API against the golden-title corpus in benchmark/corpus.json: whether the right upstream
+// record was matched, how complete the response is and how many expected platforms were linked to a title page. It
+// starts its own server replaying the fixtures in benchmark/fixtures, so every commit is scored offline on the same
+// upstream data; --record refreshes those fixtures from the live upstreams.
+import { execSync, spawn } from "child_process"
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs"
+import path from "path"
+
+// Fields a good response is expected to fill, by research type; paths are dot-separated
+const EXPECTED_FIELDS = {
+  movie: [
+    "plot",
+    "released",
+    "runtime",
+    "genres",
+    "director",
+    "cast",
+    "language",
+    "poster",
+    "trailer",
+    "ratings.imdb",
+    "references.imdbId",
+    "references.tmdbId",
+  ],
+  series: [
+    "plot",
+    "genres",
+    "creators",
+    "cast",
+    "seasons",
+    "episodes",
+    "status",
+    "poster",
+    "production.networks",
+    "ratings.tmdb",
+    "references.tmdbId",
+  ],
+  music: [
+    "artist.name",
+    "album.title",
+    "releaseYear",
+    "duration",
+    "genres",
+    "bpm",
+    "key",
+    "lyrics",
+    "references.spotifyId",
+    "references.isrc",
+  ],
+  book: [
+    "author",
+    "isbn",
+    "publishedYear",
+    "publisher.name",
+    "genres",
+    "pages",
+    "description",
+    "references.isbn13",
+    "references.googleBooksId",
+  ],
+}
+
+// Upstream keys are redacted from recorded URLs, so any value replays; they only have to be set for the sources not
+// to be skipped
+const PLACEHOLDER_KEYS = [
+  "TMDB_API_KEY",
+  "OMDB_API_KEY",
+  "SPOTIFY_CLIENT_ID",
+  "SPOTIFY_CLIENT_SECRET",
+  "GOOGLE_BOOKS_API_KEY",
+]
+
+// Search pages and watch-page or JustWatch listings name a platform without showing the title is on it
+const NON_TITLE_LINKS = [
+  /\/search\b/i,
+  /[?&](?:q|k|term|query|search_query)=/i,
+  /\/\/(?:www\.)?themoviedb\.org\//i,
+  /\/\/(?:www\.)?justwatch\.com\//i,
+]
+
+const options = parseArgs(process.argv.slice(2))
+const corpus = JSON.parse(readFileSync(options.corpus, "utf8"))
+const items = corpus.items.filter((item) => !options.only || item.type === options.only)
+checkCorpus(items)
+
+const server = options.url ? { url: options.url, stop: () => {} } : await startServer(options)
+const results = []
+try {
+  for (let start = 0; start < items.length; start += options.chunk) {
+    const chunk = items.slice(start, start + options.chunk)
+    console.log(`Researching items ${start + 1}-${start + chunk.length} of ${items.length}`)
+    const responses = await researchBatch(server.url, chunk)
+    chunk.forEach((item, index) => results.push(scoreItem(item, responses[index])))
+  }
+} finally {
+  server.stop()
+}
+
+const fixturesLabel = path.relative(process.cwd(), options.fixtures)
+const report = {
+  version: 1,
+  generatedAt: new Date().toISOString(),
+  commit: getCommit(),
+  corpus: path.relative(process.cwd(), options.corpus),
+  server: options.url || `${options.record ? "recorded" : "replayed"} ${fixturesLabel}`,
+  summary: summarize(results),
+  items: results,
+}
+
+mkdirSync(path.dirname(options.out), { recursive: true })
+writeFileSync(options.out, JSON.stringify(report, null, 2) + "\n")
+console.log(`\nReport written to ${options.out}\n`)
+printSummary(report.summary)
+
+if (options.baseline) {
+  const regressed = compareWithBaseline(JSON.parse(readFileSync(options.baseline, "utf8")), report)
+  if (regressed && options.failOnRegression) process.exit(1)
+}
+
+// Expected platforms are only listed where they can be checked, such as a service's own originals, and each list
+// names the fact it rests on, so the corpus never guesses at storefront catalogues
+function checkCorpus(items) {
+  for (const item of items) {
+    if (item.expected.platforms && !item.expected.platformsSource) {
+      throw new Error(`Corpus item ${item.id} lists platforms without a platformsSource`)
+    }
+  }
+}
+
+// Runs `next dev` on its own port with a fresh in-memory cache, replaying (or recording) the fixtures, and waits until
+// it answers at all (health probes may fail on replay); the whole process group is stopped afterwards
+async function startServer({ fixtures, record, port }) {
+  if (!record && !existsSync(fixtures)) {
+    throw new Error(`No recorded fixtures in ${fixtures}; record them once with --record, or score a server with --url`)
+  }
+
+  const env = {
+    ...process.env,
+    HTTP_FIXTURES_MODE: record ? "record" : "replay",
+    HTTP_FIXTURES_DIR: fixtures,
+    CACHE_STORE: "memory",
+    NEXT_TELEMETRY_DISABLED: "1",
+    API_KEYS: "",
+    API_KEYS_FILE: "",
+  }
+  if (!record) {
+    for (const name of PLACEHOLDER_KEYS) env[name] ||= "replay"
+  }
+
+  const child = spawn(path.join("node_modules", ".bin", "next"), ["dev", "--port", String(port)], {
+    env,
+    stdio: ["ignore", "ignore", "inherit"],
+    detached: true,
+  })
+  const url = `http://localhost:${port}`
+  const stop = () => {
+    try {
+      process.kill(-child.pid, "SIGTERM")
+    } catch {}
+  }
+
+  console.log(`Starting a server ${record ? "recording" : "replaying"} ${fixtures} on ${url}`)
+  const deadline = Date.now() + 180000
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) throw new Error(`The server exited with code ${child.exitCode}`)
+    try {
+      await fetch(`${url}/api/health`, { signal: AbortSignal.timeout(60000) })
+      return { url, stop }
+    } catch {}
+    await new Promise((resolve) => setTimeout(resolve, 1000))
+  }
+  stop()
+  throw new Error(`The server did not answer on ${url} within 3 minutes`)
+}
+
+async function researchBatch(url, chunk) {
+  const headers = { "Content-Type": "application/json" }
+  if (options.apiKey) headers["X-API-Key"] = options.apiKey
+
+  const response = await fetch(`${url}/api/research/batch`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({
+      concurrency: options.concurrency,
+      items: chunk.map((item) => ({ id: item.id, type: item.type, request: item.request })),
+    }),
+  })
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(`Batch request failed with ${response.status}: ${body.message || body.error || "no body"}`)
+  }
+  return body.data.results
+}
+
+function scoreItem(item, result) {
+  const scored = { id: item.id, type: item.type }
+  if (!result?.success) {
+    const error = result?.message || result?.error || "No result"
+    const platforms = scorePlatforms(item, {})
+    return platforms ? { ...scored, error, platforms } : { ...scored, error }
+  }
+
+  const data = result.data
+  const missingFields = EXPECTED_FIELDS[item.type].filter((field) => !isFilled(getPath(data, field)))
+  const scoredItem = {
+    ...scored,
+    match: scoreMatch(item, data),
+    completeness: {
+      score: round(1 - missingFields.length / EXPECTED_FIELDS[item.type].length),
+      missing: missingFields,
+    },
+  }
+
+  const platforms = scorePlatforms(item, data)
+  return platforms ? { ...scoredItem, platforms } : scoredItem
+}
+
+// Books accept any of the listed editions, since a title search may legitimately land on another printing
+function scoreMatch(item, data) {
+  const { expected } = item
+  switch (item.type) {
+    case "movie":
+    case "series": {
+      const actual = data.references?.tmdbId ?? data.match?.id
+      return { expected: expected.tmdbId, actual, correct: String(actual) === expected.tmdbId }
+    }
+    case "music": {
+      const actual = data.references?.spotifyId ?? data.match?.id
+      return { expected: expected.spotifyId, actual, correct: actual === expected.spotifyId }
+    }
+    case "book": {
+      const actual = data.references?.isbn13 ?? data.isbn
+      return { expected: expected.isbn13, actual, correct: expected.isbn13.includes(actual) }
+    }
+  }
+}
+
+// Expected platform names are listed per region for movies and series, per format (ebook, audiobook…) for books and
+// as one list for music, matching the shape of each type's availableOn. A platform only counts as found when its
+// link is a title page; one found only as a search or listing link is reported under `notTitlePages`
+function scorePlatforms(item, data) {
+  const expected = item.expected.platforms
+  if (!expected) return undefined
+
+  const groups = Array.isArray(expected) ? { "": expected } : expected
+  const wanted = []
+  const missing = []
+  const notTitlePages = []
+  for (const [group, names] of Object.entries(groups)) {
+    const platforms = getPlatforms(item.type, data.availableOn, group)
+    const linked = platforms.filter((platform) => isTitlePageLink(platform.link))
+    wanted.push(...names)
+    for (const name of names) {
+      const label = group ? `${group}:${name}` : name
+      if (linked.some((platform) => platformMatches(platform.platform, name))) continue
+      missing.push(label)
+      if (platforms.some((platform) => platformMatches(platform.platform, name))) notTitlePages.push(label)
+    }
+  }
+
+  return { recall: round(1 - missing.length / wanted.length), missing, notTitlePages }
+}
+
+function isTitlePageLink(link) {
+  return typeof link === "string" && link.startsWith("http") && !NON_TITLE_LINKS.some((pattern) => pattern.test(link))
+}
+
+function getPlatforms(type, availableOn, group) {
+  switch (type) {
+    case "movie":
+    case "series": {
+      const availability = availableOn?.regions?.[group]
+      return [...(availability?.streaming || []), ...(availability?.purchase || [])]
+    }
+    case "music":
+      return [...(availableOn?.streaming || []), ...(availableOn?.purchase || [])]
+    case "book":
+      return availableOn?.[group] || []
+  }
+}
+
+// "Disney+" and "Disney Plus" or "Max" and "HBO Max" name the same service
+function normalizePlatform(name) {
+  return String(name || "")
+    .toLowerCase()
+    .replace(/\+/g, "plus")
+    .replace(/[^a-z0-9]/g, "")
+}
+
+function platformMatches(foundName, expectedName) {
+  const found = normalizePlatform(foundName)
+  const expected = normalizePlatform(expectedName)
+  return found === expected || found.endsWith(expected) || expected.endsWith(found)
+}
+
+function summarize(results) {
+  const byType = {}
+  for (const type of Object.keys(EXPECTED_FIELDS)) {
+    const ofType = results.filter((result) => result.type === type)
+    if (ofType.length > 0) byType[type] = summarizeScores(ofType)
+  }
+  return { overall: summarizeScores(results), byType }
+}
+
+// Errored items count as wrong matches with nothing filled or found, so a crash never improves a score
+function summarizeScores(results) {
+  const withPlatforms = results.filter((result) => result.platforms)
+  return {
+    items: results.length,
+    errors: results.filter((result) => result.error).length,
+    matchAccuracy: average(results.map((result) => (result.match?.correct ? 1 : 0))),
+    fieldCompleteness: average(results.map((result) => result.completeness?.score ?? 0)),
+    platformRecall: withPlatforms.length > 0 ? average(withPlatforms.map((result) => result.platforms.recall)) : null,
+  }
+}
+
+function printSummary(summary) {
+  const rows = [["overall", summary.overall], ...Object.entries(summary.byType)]
+  console.log(pad("", 10) + ["items", "errors", "match", "fields", "platforms"].map((name) => pad(name, 12)).join(""))
+  for (const [name, scores] of rows) {
+    console.log(
+      pad(name, 10) +
+        [scores.items, scores.errors, scores.matchAccuracy, scores.fieldCompleteness, scores.platformRecall ?? "-"]
+          .map((value) => pad(String(value), 12))
+          .join(""),
+    )
+  }
+}
+
+// Prints metric deltas and the items whose match flipped; returns whether anything got worse
+function compareWithBaseline(baseline, current) {
+  console.log(`\nCompared with ${options.baseline} (${baseline.commit || "unknown commit"}):\n`)
+  console.log(pad("", 10) + ["match", "fields", "platforms"].map((name) => pad(name, 36)).join(""))
+  let regressed = false
+
+  for (const name of ["overall", ...Object.keys(current.summary.byType)]) {
+    const before = name === "overall" ? baseline.summary.overall : baseline.summary.byType[name]
+    const after = name === "overall" ? current.summary.overall : current.summary.byType[name]
+    if (!before) continue
+
+    const deltas = ["matchAccuracy", "fieldCompleteness", "platformRecall"].map((metric) => {
+      if (before[metric] === null || after[metric] === null) return pad("-", 36)
+      const delta = round(after[metric] - before[metric])
+      if (delta < 0) regressed = true
+      return pad(`${before[metric]} -> ${after[metric]} (${delta >= 0 ? "+" : ""}${delta})`, 36)
+    })
+    console.log(pad(name, 10) + deltas.join(""))
+  }
+
+  const previous = new Map(baseline.items.map((item) => [item.id, item]))
+  const flipped = current.items.flatMap((item) => {
+    const before = previous.get(item.id)
+    if (!before || Boolean(before.match?.correct) === Boolean(item.match?.correct)) return []
+    return [
+      `  ${item.match?.correct ? "fixed " : "broken"} ${item.id} (${before.match?.actual} -> ${item.match?.actual})`,
+    ]
+  })
+  if (flipped.length > 0) {
+    console.log(`\nMatches that changed:\n${flipped.join("\n")}`)
+  }
+  return regressed
+}
+
+function parseArgs(args) {
+  const parsed = {
+    corpus: path.join(process.cwd(), "benchmark", "corpus.json"),
+    fixtures: path.join(process.cwd(), "benchmark", "fixtures"),
+    url: process.env.BENCHMARK_URL?.replace(/\/+$/, ""),
+    port: 3100,
+    record: false,
+    apiKey: process.env.BENCHMARK_API_KEY,
+    chunk: 20,
+    concurrency: 4,
+    failOnRegression: false,
+  }
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index]
+    const next = () => {
+      if (index + 1 >= args.length) throw new Error(`${arg} needs a value`)
+      return args[++index]
+    }
+    if (arg === "--corpus") parsed.corpus = next()
+    else if (arg === "--out") parsed.out = next()
+    else if (arg === "--baseline") parsed.baseline = next()
+    else if (arg === "--url") parsed.url = next().replace(/\/+$/, "")
+    else if (arg === "--fixtures") parsed.fixtures = path.resolve(next())
+    else if (arg === "--record") parsed.record = true
+    else if (arg === "--port") parsed.port = Number.parseInt(next())
+    else if (arg === "--only") parsed.only = next()
+    else if (arg === "--chunk") parsed.chunk = Number.parseInt(next())
+    else if (arg === "--concurrency") parsed.concurrency = Number.parseInt(next())
+    else if (arg === "--fail-on-regression") parsed.failOnRegression = true
+    else throw new Error(`Unknown option ${arg}`)
+  }
+
+  parsed.out ||= path.join(process.cwd(), "benchmark", "reports", `${getCommit() || Date.now()}.json`)
+  return parsed
+}
+
+function getCommit() {
+  try {
+    return execSync("git rev-parse --short HEAD", { stdio: ["ignore", "pipe", "ignore"] })
+      .toString()
+      .trim()
+  } catch {
+    return undefined
+  }
+}
+
+function getPath(value, field) {
+  return field.split(".").reduce((current, key) => current?.[key], value)
+}
+
+function isFilled(value) {
+  if (value === undefined || value === null || value === "") return false
+  if (Array.isArray(value)) return value.length > 0
+  if (typeof value === "object") return Object.keys(value).length > 0
+  return true
+}
+
+function average(values) {
+  return values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0
+}
+
+function round(value) {
+  return Math.round(value * 1000) / 1000
+}
+
+function pad(value, width) {
+  return value.padEnd(width)
+}
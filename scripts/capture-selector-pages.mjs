@@ -0,0 +1,112 @@
+// Captures the upstream pages the selector packs are written against into fixtures/selectors/<site>, trimmed down to
+// the markup the packs read: styles, media, comments and every inline script the site's patterns do not need are
+// dropped. The URLs are the ones the scrapers build for a well-known title, so /api/selectors checks the packs
+// against what the sites actually serve.
+import * as cheerio from "cheerio"
+import { mkdirSync, writeFileSync } from "fs"
+import path from "path"
+
+const USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36"
+
+// `keepScripts` matches the inline scripts a site's patterns read; all other scripts are removed
+const PAGES = [
+  { site: "justwatch", file: "search.html", url: "https://www.justwatch.com/us/search?q=The%20Matrix" },
+  {
+    site: "tmdb-watch",
+    file: "movie.html",
+    url: "https://www.themoviedb.org/movie/603/watch?locale=US",
+    keepScripts: /"offers"|https:\/\/(www\.|watch\.|app\.|play\.|tv\.)/,
+  },
+  { site: "genius", file: "search.html", url: "https://genius.com/search?q=Queen%20Bohemian%20Rhapsody" },
+  { site: "genius", file: "song.html", url: "https://genius.com/Queen-bohemian-rhapsody-lyrics" },
+  { site: "apple-music", file: "search.html", url: "https://music.apple.com/search?term=Queen%20Bohemian%20Rhapsody" },
+  { site: "amazon-music", file: "search.html", url: "https://music.amazon.com/search/Queen%20Bohemian%20Rhapsody" },
+  { site: "deezer", file: "search.html", url: "https://www.deezer.com/search/Queen%20Bohemian%20Rhapsody" },
+  { site: "tidal", file: "search.html", url: "https://tidal.com/search?q=Queen%20Bohemian%20Rhapsody" },
+  {
+    site: "youtube",
+    file: "results.html",
+    url: "https://www.youtube.com/results?search_query=Queen%20Bohemian%20Rhapsody%20official",
+    keepScripts: /"videoId":"/,
+  },
+]
+
+const ATTRIBUTES_TO_DROP = ["style", "srcset", "sizes", "integrity", "nonce", "crossorigin"]
+
+function parseArgs(argv) {
+  const options = { dir: process.env.SELECTOR_FIXTURES_DIR || "fixtures/selectors", only: null }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    const value = () => {
+      const next = argv[++i]
+      if (next === undefined) throw new Error(`${arg} needs a value`)
+      return next
+    }
+    if (arg === "--dir") options.dir = value()
+    else if (arg === "--only") options.only = value()
+    else throw new Error(`Unknown option ${arg}`)
+  }
+  return options
+}
+
+function trim(html, page) {
+  const $ = cheerio.load(html)
+  $("style, link, svg, noscript, iframe, picture source, video, audio, template").remove()
+  $("script").each((i, element) => {
+    const $script = $(element)
+    const inline = !$script.attr("src") && ($script.html() || "").trim()
+    if (!inline || !page.keepScripts?.test(inline)) $script.remove()
+  })
+  $("*")
+    .contents()
+    .filter((i, node) => node.type === "comment")
+    .remove()
+  $("*").each((i, element) => {
+    for (const attribute of ATTRIBUTES_TO_DROP) $(element).removeAttr(attribute)
+  })
+
+  const body = $.html().replace(/\n\s*\n+/g, "\n")
+  return `<!-- Captured from ${page.url} on ${new Date().toISOString().slice(0, 10)} -->\n${body}\n`
+}
+
+async function capture(page, dir) {
+  const response = await fetch(page.url, {
+    headers: { "User-Agent": USER_AGENT, "Accept-Language": "en-US,en;q=0.9", Accept: "text/html" },
+    signal: AbortSignal.timeout(20000),
+  })
+  if (!response.ok) throw new Error(`HTTP ${response.status}`)
+
+  const html = trim(await response.text(), page)
+  const location = path.join(dir, page.site, page.file)
+  mkdirSync(path.dirname(location), { recursive: true })
+  writeFileSync(location, html)
+  return { location, bytes: Buffer.byteLength(html) }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+  const pages = PAGES.filter((page) => !options.only || page.site === options.only)
+  if (pages.length === 0) throw new Error(`No pages for site ${options.only}`)
+
+  let failed = 0
+  for (const page of pages) {
+    try {
+      const { location, bytes } = await capture(page, options.dir)
+      console.log(`${location} (${Math.round(bytes / 1024)} KB)`)
+    } catch (error) {
+      failed++
+      console.error(`${page.site}/${page.file}: ${error.message} (${page.url})`)
+    }
+  }
+
+  if (failed > 0) {
+    console.error(`\n${failed} of ${pages.length} pages could not be captured; their previous fixtures were kept`)
+    process.exitCode = 1
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message)
+  process.exit(1)
+})
@@ -0,0 +1,486 @@
+// Local stand-in for TMDB, OMDB, Spotify and Google Books, for exercising the API routes end to end without network
+// access or API keys. Point the *_BASE_URL variables at it (see the README) and run `npm run mock:upstream`.
+import { createServer } from "http"
+
+const PORT = Number.parseInt(process.env.MOCK_UPSTREAM_PORT || "") || 4010
+const SLOW_RESPONSE_MS = Number.parseInt(process.env.MOCK_UPSTREAM_SLOW_MS || "") || 30000
+const SPOTIFY_ACCESS_TOKEN = "mock-spotify-access-token"
+
+const MOVIES = [
+  {
+    id: 603,
+    imdb_id: "tt0133093",
+    title: "The Matrix",
+    original_title: "The Matrix",
+    release_date: "1999-03-31",
+    overview:
+      "Set in the 22nd century, The Matrix tells the story of a computer hacker who joins a group of underground insurgents fighting the vast and powerful computers who now rule the earth.",
+    runtime: 136,
+    budget: 63000000,
+    revenue: 463517383,
+    genres: [
+      { id: 28, name: "Action" },
+      { id: 878, name: "Science Fiction" },
+    ],
+    poster_path: "/f89U3ADr1oiB1s9GkdPOEpXUk5H.jpg",
+    vote_average: 8.2,
+    vote_count: 26000,
+    popularity: 80.5,
+    original_language: "en",
+    production_companies: [{ id: 79, name: "Village Roadshow Pictures" }],
+    credits: {
+      cast: [
+        { id: 6384, name: "Keanu Reeves", character: "Neo", order: 0 },
+        { id: 2975, name: "Laurence Fishburne", character: "Morpheus", order: 1 },
+        { id: 530, name: "Carrie-Anne Moss", character: "Trinity", order: 2 },
+      ],
+      crew: [
+        { id: 9340, name: "Lana Wachowski", job: "Director", department: "Directing" },
+        { id: 9339, name: "Lilly Wachowski", job: "Director", department: "Directing" },
+      ],
+    },
+    videos: [{ key: "vKQi3bBA1y8", name: "Official Trailer", site: "YouTube", type: "Trailer", iso_639_1: "en" }],
+  },
+]
+
+const SERIES = [
+  {
+    id: 1396,
+    name: "Breaking Bad",
+    original_name: "Breaking Bad",
+    first_air_date: "2008-01-20",
+    last_air_date: "2013-09-29",
+    overview:
+      "Walter White, a New Mexico chemistry teacher, is diagnosed with Stage III cancer and given a prognosis of only two years left to live.",
+    number_of_seasons: 5,
+    number_of_episodes: 62,
+    status: "Ended",
+    genres: [
+      { id: 18, name: "Drama" },
+      { id: 80, name: "Crime" },
+    ],
+    networks: [{ id: 174, name: "AMC" }],
+    created_by: [{ id: 66633, name: "Vince Gilligan" }],
+    poster_path: "/ztkUQFLlC19CCMYHW9o1zWhJRNq.jpg",
+    vote_average: 8.9,
+    vote_count: 14000,
+    popularity: 250.3,
+    original_language: "en",
+    external_ids: { imdb_id: "tt0903747", tvdb_id: 81189 },
+    credits: {
+      cast: [
+        { id: 17419, name: "Bryan Cranston", character: "Walter White", order: 0 },
+        { id: 84497, name: "Aaron Paul", character: "Jesse Pinkman", order: 1 },
+      ],
+      crew: [{ id: 66633, name: "Vince Gilligan", job: "Executive Producer", department: "Production" }],
+    },
+  },
+]
+
+const WATCH_PROVIDERS = {
+  US: {
+    link: "https://www.themoviedb.org/movie/603/watch?locale=US",
+    flatrate: [{ provider_id: 8, provider_name: "Netflix", logo_path: "/t2yyOv40HZeVlLjYsCsPHnWLk4W.jpg" }],
+    buy: [{ provider_id: 2, provider_name: "Apple TV", logo_path: "/peURlLlr8jggOwK53fJ5wdQl05y.jpg" }],
+    rent: [{ provider_id: 10, provider_name: "Amazon Video", logo_path: "/5NyLm42TmCqCMOZFvH4fcoSNKEW.jpg" }],
+  },
+  GB: {
+    link: "https://www.themoviedb.org/movie/603/watch?locale=GB",
+    flatrate: [{ provider_id: 8, provider_name: "Netflix", logo_path: "/t2yyOv40HZeVlLjYsCsPHnWLk4W.jpg" }],
+  },
+}
+
+const TRACKS = [
+  {
+    id: "4u7EnebtmKWzUH433cf5Qv",
+    name: "Bohemian Rhapsody",
+    duration_ms: 354320,
+    explicit: false,
+    popularity: 85,
+    preview_url: null,
+    external_ids: { isrc: "GBUM71029604" },
+    external_urls: { spotify: "https://open.spotify.com/track/4u7EnebtmKWzUH433cf5Qv" },
+    artists: [{ id: "1dfeR4HaWDbWqFHLkxsg1d", name: "Queen" }],
+    album: {
+      id: "6i6folBtxKV28WX3msQ4FE",
+      name: "A Night At The Opera (2011 Remaster)",
+      release_date: "1975-11-21",
+      images: [{ url: "https://i.scdn.co/image/ab67616d0000b273ce4f1737bc8a646c8c4bd25a", width: 640, height: 640 }],
+    },
+  },
+]
+
+const ARTISTS = {
+  "1dfeR4HaWDbWqFHLkxsg1d": {
+    id: "1dfeR4HaWDbWqFHLkxsg1d",
+    name: "Queen",
+    genres: ["classic rock", "glam rock", "rock"],
+    popularity: 85,
+    followers: { total: 50000000 },
+  },
+}
+
+const ALBUMS = {
+  "6i6folBtxKV28WX3msQ4FE": {
+    id: "6i6folBtxKV28WX3msQ4FE",
+    name: "A Night At The Opera (2011 Remaster)",
+    label: "EMI",
+    release_date: "1975-11-21",
+    total_tracks: 12,
+    copyrights: [{ text: "© 2011 Queen Productions Ltd.", type: "C" }],
+  },
+}
+
+const AUDIO_FEATURES = {
+  "4u7EnebtmKWzUH433cf5Qv": { id: "4u7EnebtmKWzUH433cf5Qv", tempo: 143.883, key: 10, mode: 0, energy: 0.402 },
+}
+
+const VOLUMES = [
+  {
+    id: "B1hSG45JCX4C",
+    volumeInfo: {
+      title: "Dune",
+      authors: ["Frank Herbert"],
+      publisher: "Penguin",
+      publishedDate: "2005-08-02",
+      description: "Set on the desert planet Arrakis, Dune is the story of the boy Paul Atreides.",
+      industryIdentifiers: [
+        { type: "ISBN_10", identifier: "0441013597" },
+        { type: "ISBN_13", identifier: "9780441013593" },
+      ],
+      pageCount: 528,
+      categories: ["Fiction"],
+      averageRating: 4.5,
+      ratingsCount: 1200,
+      language: "en",
+      imageLinks: { thumbnail: "http://books.google.com/books/content?id=B1hSG45JCX4C&printsec=frontcover&img=1" },
+    },
+  },
+]
+
+// Active faults, each matched by path prefix; see handleFaults
+let faults = []
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || "/", `http://localhost:${PORT}`)
+  const body = await readBody(req)
+  console.log(`${req.method} ${url.pathname}${url.search}`)
+
+  if (url.pathname === "/__mock/faults") return handleFaults(req, res, body)
+
+  const fault = takeFault(url) || getTitleFault(url, body)
+  if (fault?.delayMs) await sleep(fault.delayMs)
+  if (fault?.status) {
+    const headers = fault.status === 429 ? { "Retry-After": String(fault.retryAfter ?? 1) } : {}
+    return send(res, fault.status, { error: `Mock fault ${fault.status}` }, headers)
+  }
+
+  try {
+    const [status, data] = route(req, url, body)
+    send(res, status, data)
+  } catch (error) {
+    send(res, 500, { error: error instanceof Error ? error.message : "Mock server error" })
+  }
+})
+
+function route(req, url, body) {
+  const path = url.pathname.replace(/\/+$/, "")
+  const query = url.searchParams
+
+  if (path.startsWith("/tmdb/3/")) return routeTmdb(path.slice("/tmdb/3".length), query)
+  if (path === "/omdb") return routeOmdb(query)
+  if (path === "/spotify-accounts/api/token" && req.method === "POST") return routeSpotifyToken(req, body)
+  if (path.startsWith("/spotify/v1/")) return routeSpotify(req, path.slice("/spotify/v1".length), query)
+  if (path === "/google-books/books/v1/volumes") return routeGoogleBooks(query)
+  return [404, { error: `No mock for ${req.method} ${url.pathname}` }]
+}
+
+function routeTmdb(path, query) {
+  if (!query.get("api_key")) {
+    return [
+      401,
+      { success: false, status_code: 7, status_message: "Invalid API key: You must be granted a valid key." },
+    ]
+  }
+  const notFound = [
+    404,
+    { success: false, status_code: 34, status_message: "The resource you requested could not be found." },
+  ]
+
+  if (path === "/configuration") {
+    return [200, { images: { secure_base_url: "https://image.tmdb.org/t/p/", poster_sizes: ["w500", "original"] } }]
+  }
+  if (path === "/watch/providers/regions") {
+    return [200, { results: Object.keys(WATCH_PROVIDERS).map((iso) => ({ iso_3166_1: iso, english_name: iso })) }]
+  }
+  if (path === "/search/movie") {
+    const year = query.get("year")
+    const results = MOVIES.filter(
+      (movie) => matchesText(movie.title, query.get("query")) && (!year || movie.release_date.startsWith(year)),
+    )
+    return [200, page(results.map(summarizeMovie))]
+  }
+  if (path === "/search/tv") {
+    const year = query.get("first_air_date_year")
+    const results = SERIES.filter(
+      (series) => matchesText(series.name, query.get("query")) && (!year || series.first_air_date.startsWith(year)),
+    )
+    return [200, page(results.map(summarizeSeries))]
+  }
+
+  const find = path.match(/^\/find\/([^/]+)$/)
+  if (find) {
+    const imdbId = decodeURIComponent(find[1])
+    return [
+      200,
+      {
+        movie_results: MOVIES.filter((movie) => movie.imdb_id === imdbId).map(summarizeMovie),
+        tv_results: SERIES.filter((series) => series.external_ids.imdb_id === imdbId).map(summarizeSeries),
+      },
+    ]
+  }
+
+  const movieMatch = path.match(/^\/movie\/(\d+)(\/.*)?$/)
+  if (movieMatch) {
+    const movie = MOVIES.find((candidate) => candidate.id === Number(movieMatch[1]))
+    if (!movie) return notFound
+    const { credits, videos, ...details } = movie
+    switch (movieMatch[2]) {
+      case undefined:
+        return [200, withAppended(details, query, { credits: { id: movie.id, ...credits } })]
+      case "/credits":
+        return [200, { id: movie.id, ...credits }]
+      case "/videos":
+        return [200, { id: movie.id, results: videos }]
+      case "/watch/providers":
+        return [200, { id: movie.id, results: WATCH_PROVIDERS }]
+      case "/external_ids":
+        return [200, { id: movie.id, imdb_id: movie.imdb_id }]
+      default:
+        return notFound
+    }
+  }
+
+  const tvMatch = path.match(/^\/tv\/(\d+)(\/.*)?$/)
+  if (tvMatch) {
+    const series = SERIES.find((candidate) => candidate.id === Number(tvMatch[1]))
+    if (!series) return notFound
+    const { credits, external_ids, ...details } = series
+    switch (tvMatch[2]) {
+      case undefined:
+        return [200, withAppended(details, query, { credits: { id: series.id, ...credits }, external_ids })]
+      case "/credits":
+        return [200, { id: series.id, ...credits }]
+      case "/watch/providers":
+        return [200, { id: series.id, results: WATCH_PROVIDERS }]
+      case "/external_ids":
+        return [200, { id: series.id, ...external_ids }]
+      default:
+        return notFound
+    }
+  }
+
+  return notFound
+}
+
+// OMDB answers misses with 200 and Response "False", like the real API
+function routeOmdb(query) {
+  if (!query.get("apikey")) return [401, { Response: "False", Error: "No API key provided." }]
+
+  const imdbId = query.get("i")
+  const year = query.get("y")
+  const movie = imdbId
+    ? MOVIES.find((candidate) => candidate.imdb_id === imdbId)
+    : MOVIES.find(
+        (candidate) =>
+          candidate.title.toLowerCase() === (query.get("t") || "").toLowerCase() &&
+          (!year || candidate.release_date.startsWith(year)),
+      )
+  if (!movie) return [200, { Response: "False", Error: imdbId ? "Incorrect IMDb ID." : "Movie not found!" }]
+
+  return [
+    200,
+    {
+      Title: movie.title,
+      Year: movie.release_date.slice(0, 4),
+      Rated: "R",
+      Released: "31 Mar 1999",
+      Runtime: `${movie.runtime} min`,
+      Genre: movie.genres.map((genre) => genre.name).join(", "),
+      Director: movie.credits.crew.map((member) => member.name).join(", "),
+      Actors: movie.credits.cast.map((member) => member.name).join(", "),
+      Plot: movie.overview,
+      Language: "English",
+      Country: "United States, Australia",
+      Awards: "Won 4 Oscars. 42 wins & 52 nominations total",
+      Ratings: [
+        { Source: "Internet Movie Database", Value: "8.7/10" },
+        { Source: "Rotten Tomatoes", Value: "83%" },
+        { Source: "Metacritic", Value: "73/100" },
+      ],
+      Metascore: "73",
+      imdbRating: "8.7",
+      imdbVotes: "2,100,000",
+      imdbID: movie.imdb_id,
+      Type: "movie",
+      BoxOffice: "$172,076,928",
+      Response: "True",
+    },
+  ]
+}
+
+function routeSpotifyToken(req, body) {
+  const params = new URLSearchParams(body)
+  if (!/^Basic\s+\S+/i.test(req.headers.authorization || "") || params.get("grant_type") !== "client_credentials") {
+    return [400, { error: "invalid_client", error_description: "Invalid client" }]
+  }
+  return [200, { access_token: SPOTIFY_ACCESS_TOKEN, token_type: "Bearer", expires_in: 3600 }]
+}
+
+function routeSpotify(req, path, query) {
+  if (req.headers.authorization !== `Bearer ${SPOTIFY_ACCESS_TOKEN}`) {
+    return [401, { error: { status: 401, message: "Invalid access token" } }]
+  }
+  const notFound = [404, { error: { status: 404, message: "Resource not found" } }]
+
+  if (path === "/search") {
+    const limit = Number.parseInt(query.get("limit") || "") || 20
+    const items = TRACKS.filter((track) => matchesSpotifyQuery(track, query.get("q") || "")).slice(0, limit)
+    return [200, { tracks: { items, total: items.length, limit, offset: 0 } }]
+  }
+
+  const [, resource, id] = path.split("/")
+  const lookups = {
+    tracks: TRACKS.find((track) => track.id === id),
+    artists: ARTISTS[id],
+    albums: ALBUMS[id],
+    "audio-features": AUDIO_FEATURES[id],
+  }
+  const found = lookups[resource]
+  return found ? [200, found] : notFound
+}
+
+function routeGoogleBooks(query) {
+  const q = query.get("q") || ""
+  const maxResults = Number.parseInt(query.get("maxResults") || "") || 10
+  const isbn = q.match(/isbn:(\S+)/)?.[1]
+  const title = q.match(/intitle:"([^"]*)"/)?.[1]
+  const author = q.match(/inauthor:"([^"]*)"/)?.[1]
+
+  const items = VOLUMES.filter((volume) => {
+    const info = volume.volumeInfo
+    if (isbn) return info.industryIdentifiers.some((identifier) => identifier.identifier === isbn)
+    return matchesText(info.title, title ?? q) && (!author || info.authors.some((name) => matchesText(name, author)))
+  }).slice(0, maxResults)
+
+  // Google Books omits `items` entirely when nothing matched
+  return [
+    200,
+    items.length > 0
+      ? { kind: "books#volumes", totalItems: items.length, items }
+      : { kind: "books#volumes", totalItems: 0 },
+  ]
+}
+
+// POST {path, status?, delayMs?, retryAfter?, times?} adds a fault for requests whose path starts with `path`, e.g.
+// {"path": "/tmdb/3/movie/603/watch/providers", "status": 429, "times": 2}; GET lists them and DELETE clears them
+function handleFaults(req, res, body) {
+  if (req.method === "DELETE") {
+    faults = []
+    return send(res, 200, { faults })
+  }
+  if (req.method === "POST") {
+    let fault
+    try {
+      fault = JSON.parse(body)
+    } catch {
+      return send(res, 400, { error: "Fault must be a JSON object" })
+    }
+    if (typeof fault?.path !== "string" || (!fault.status && !fault.delayMs)) {
+      return send(res, 400, { error: "A fault needs a path and a status or delayMs" })
+    }
+    faults.push(fault)
+    return send(res, 201, { faults })
+  }
+  return send(res, 200, { faults })
+}
+
+function takeFault(url) {
+  const fault = faults.find((candidate) => url.pathname.startsWith(candidate.path))
+  if (fault?.times !== undefined && --fault.times <= 0) {
+    faults = faults.filter((candidate) => candidate !== fault)
+  }
+  return fault
+}
+
+// Titles the routes pass straight through, so a research request alone can trigger a fault:
+// "mock-error-503" fails with that status, "mock-rate-limit" answers 429 and "mock-slow" waits MOCK_UPSTREAM_SLOW_MS
+function getTitleFault(url, body) {
+  const text = `${url.searchParams} ${body}`.toLowerCase()
+  const error = text.match(/mock-error-(\d{3})/)
+  if (error) return { status: Number(error[1]) }
+  if (text.includes("mock-rate-limit")) return { status: 429, retryAfter: 1 }
+  if (text.includes("mock-slow")) return { delayMs: SLOW_RESPONSE_MS }
+  return null
+}
+
+function matchesText(value, search) {
+  const needle = (search || "").trim().toLowerCase()
+  return needle.length > 0 && value.toLowerCase().includes(needle)
+}
+
+// Understands the field filters the music scraper sends: track:"…", artist:"…" and isrc:…
+function matchesSpotifyQuery(track, q) {
+  const isrc = q.match(/isrc:(\S+)/)?.[1]
+  if (isrc) return track.external_ids.isrc === isrc.toUpperCase()
+
+  const title = q.match(/track:"([^"]*)"/)?.[1]
+  const artist = q.match(/artist:"([^"]*)"/)?.[1]
+  if (title || artist) {
+    return (
+      (!title || matchesText(track.name, title)) &&
+      (!artist || track.artists.some((candidate) => matchesText(candidate.name, artist)))
+    )
+  }
+  return matchesText(track.name, q) || track.artists.some((candidate) => matchesText(candidate.name, q))
+}
+
+function summarizeMovie({ credits, videos, ...movie }) {
+  return { ...movie, genre_ids: movie.genres.map((genre) => genre.id) }
+}
+
+function summarizeSeries({ credits, external_ids, ...series }) {
+  return { ...series, genre_ids: series.genres.map((genre) => genre.id) }
+}
+
+function withAppended(details, query, appendable) {
+  const appended = (query.get("append_to_response") || "").split(",").filter((name) => name in appendable)
+  return { ...details, ...Object.fromEntries(appended.map((name) => [name, appendable[name]])) }
+}
+
+function page(results) {
+  return { page: 1, results, total_pages: 1, total_results: results.length }
+}
+
+function send(res, status, data, headers = {}) {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8", ...headers })
+  res.end(JSON.stringify(data))
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = ""
+    req.setEncoding("utf8")
+    req.on("data", (chunk) => (body += chunk))
+    req.on("end", () => resolve(body))
+    req.on("error", reject)
+  })
+}
+
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+server.listen(PORT, () => {
+  console.log(`Mock upstream server listening on http://localhost:${PORT}`)
+})
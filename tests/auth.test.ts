@@ -0,0 +1,107 @@
+import { mkdtempSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+const KEY = "test-key-0123456789"
+
+// The authenticator is a singleton read from the environment, so each test loads a fresh copy
+async function loadAuthenticator(env: Record<string, string>) {
+  for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value)
+  vi.resetModules()
+  const { getApiKeyAuthenticator } = await import("../lib/auth")
+  return getApiKeyAuthenticator()
+}
+
+function writeKeyFile(contents: string): string {
+  const file = path.join(mkdtempSync(path.join(tmpdir(), "api-keys-")), "keys.json")
+  writeFileSync(file, contents)
+  return file
+}
+
+function requestWithKey(url = "http://localhost/api/research/movie", key = KEY): Request {
+  return new Request(url, { headers: { "X-API-Key": key } })
+}
+
+describe("getApiKeyAuthenticator", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.resetModules()
+  })
+
+  it("stays open when no keys are configured", async () => {
+    const authenticator = await loadAuthenticator({ API_KEYS: "", API_KEYS_FILE: "" })
+
+    expect(authenticator.enabled).toBe(false)
+    expect(authenticator.authorize(new Request("http://localhost/api/research/movie"))).toEqual({ allowed: true })
+  })
+
+  it("accepts keys from API_KEYS and API_KEYS_FILE", async () => {
+    const file = writeKeyFile(JSON.stringify([{ id: "acme", key: "file-key-0123456789", dailyQuota: 5 }]))
+    const authenticator = await loadAuthenticator({ API_KEYS: `tester:${KEY}`, API_KEYS_FILE: file })
+
+    expect(authenticator.authorize(requestWithKey())).toMatchObject({ allowed: true, client: { id: "tester" } })
+    expect(authenticator.authorize(requestWithKey(undefined, "file-key-0123456789"))).toMatchObject({
+      allowed: true,
+      client: { id: "acme", dailyQuota: 5 },
+    })
+    expect(authenticator.authorize(requestWithKey(undefined, "unknown-key-0123456789"))).toMatchObject({
+      allowed: false,
+      status: 401,
+    })
+  })
+
+  it.each([
+    ["is invalid", () => writeKeyFile(JSON.stringify([{ id: "acme", key: "short" }]))],
+    ["is not JSON", () => writeKeyFile("[{ id: acme }")],
+    ["does not exist", () => path.join(tmpdir(), "missing-api-keys.json")],
+  ])("refuses every request when API_KEYS_FILE %s", async (name, createFile) => {
+    const authenticator = await loadAuthenticator({ API_KEYS: `tester:${KEY}`, API_KEYS_FILE: createFile() })
+
+    expect(authenticator.enabled).toBe(true)
+    expect(authenticator.authorize(requestWithKey())).toMatchObject({ allowed: false, status: 503 })
+    expect(authenticator.authorize(new Request("http://localhost/api/research/movie"))).toMatchObject({
+      allowed: false,
+      status: 503,
+    })
+  })
+
+  it.each([
+    ["a key shorter than 16 characters", "tester:short-key"],
+    ["an entry without an id", `:${KEY}`],
+  ])("refuses every request when API_KEYS has %s", async (name, keys) => {
+    const authenticator = await loadAuthenticator({ API_KEYS: keys, API_KEYS_FILE: "" })
+
+    expect(authenticator.enabled).toBe(true)
+    expect(authenticator.authorize(requestWithKey(undefined, "short-key"))).toMatchObject({
+      allowed: false,
+      status: 503,
+    })
+  })
+})
+
+describe("daily quota", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.resetModules()
+  })
+
+  it("does not charge job polls", async () => {
+    const authenticator = await loadAuthenticator({
+      API_KEYS: `tester:${KEY}`,
+      API_KEYS_FILE: "",
+      API_DAILY_QUOTA: "1",
+    })
+    const { GET } = await import("../app/api/jobs/[id]/route")
+
+    for (let poll = 0; poll < 3; poll++) {
+      const response = await GET(requestWithKey("http://localhost/api/jobs/missing") as any, {
+        params: Promise.resolve({ id: "missing" }),
+      })
+      expect(response.status).toBe(404)
+    }
+
+    expect(authenticator.authorize(requestWithKey())).toMatchObject({ allowed: true })
+    expect(authenticator.authorize(requestWithKey())).toMatchObject({ allowed: false, status: 429 })
+  })
+})
@@ -0,0 +1,40 @@
+import axios from "axios"
+import path from "path"
+import { MemoryCacheStore, ResponseCache } from "../lib/cache"
+import { HttpClient } from "../lib/http-client"
+import { createFixtureAdapter } from "../lib/http-fixtures"
+import { RateLimiter } from "../lib/rate-limiter"
+
+export const FIXTURES_DIR = path.join(process.cwd(), "fixtures")
+
+const MOCK_UPSTREAM_URL = "http://localhost:4010/"
+
+// Answers every request from `fixtures/scrapers/<name>`. With HTTP_FIXTURES_MODE=record the calls to
+// `npm run mock:upstream` go out instead and the fixtures are rewritten. Web pages such as JustWatch, the TMDB watch
+// page or storefront searches are never recorded: the few the tests need are representative pages kept by hand
+// under the site's host, replayed in both modes, and any other page fails at once rather than being retried
+export function createFixtureClient(name: string): HttpClient {
+  const mode = process.env.HTTP_FIXTURES_MODE === "record" ? "record" : "replay"
+  const dir = path.join(FIXTURES_DIR, "scrapers", name)
+  const fixtures = createFixtureAdapter(mode, dir)
+  const pages = createFixtureAdapter("replay", dir)
+
+  return new HttpClient({
+    adapter: async (config) => {
+      if (mode === "record" && !axios.getUri(config).startsWith(MOCK_UPSTREAM_URL)) {
+        return pages(config)
+      }
+      return fixtures(config)
+    },
+    retry: { maxAttempts: 1 },
+  })
+}
+
+// A fresh cache per test, so no test is answered from another's lookups
+export function createTestCache(): ResponseCache {
+  return new ResponseCache(new MemoryCacheStore())
+}
+
+export function createTestLimiter(): RateLimiter {
+  return new RateLimiter({ concurrency: 4, minIntervalMs: 0 })
+}
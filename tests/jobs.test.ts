@@ -0,0 +1,87 @@
+import { createServer, type Server } from "http"
+import type { AddressInfo } from "net"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import * as callbackUrl from "../lib/callback-url"
+import { HttpClient } from "../lib/http-client"
+import { JobQueue, MemoryJobStore, type ResearchJob } from "../lib/jobs"
+
+vi.mock("../lib/research", () => ({ runResearch: vi.fn(async () => ({ title: "The Matrix" })) }))
+
+// The callback servers run on localhost, which the real check rejects up front; passing it stands in for a public
+// host whose name resolved to a public address when it was checked
+vi.mock("../lib/callback-url", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../lib/callback-url")>()
+  return { ...actual, assertPublicCallbackUrl: vi.fn(async () => {}), getCallbackAgents: vi.fn(() => ({})) }
+})
+
+const servers: Server[] = []
+
+async function startServer(handler: Parameters<typeof createServer>[1]): Promise<{ url: string; hits: string[] }> {
+  const hits: string[] = []
+  const server = createServer((request, response) => {
+    hits.push(request.url || "")
+    handler?.(request, response)
+  })
+  servers.push(server)
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  return { url: `http://localhost:${(server.address() as AddressInfo).port}`, hits }
+}
+
+async function runWithCallback(callbackUrl: string): Promise<ResearchJob> {
+  const queue = new JobQueue(new MemoryJobStore(), new HttpClient({ retry: { maxAttempts: 1 } }), 1)
+  const { id } = await queue.enqueue("movie", { title: "The Matrix", year: 1999 }, callbackUrl)
+
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const job = await queue.get(id)
+    if (job?.callback) return job
+    await new Promise((resolve) => setTimeout(resolve, 20))
+  }
+  throw new Error("Callback was never attempted")
+}
+
+describe("JobQueue callbacks", () => {
+  beforeEach(() => {
+    vi.mocked(callbackUrl.getCallbackAgents).mockReturnValue({} as any)
+  })
+
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve))))
+  })
+
+  it("delivers the finished job to the callback URL", async () => {
+    const receiver = await startServer((request, response) => response.end("ok"))
+
+    const job = await runWithCallback(`${receiver.url}/hooks/research`)
+
+    expect(job.callback).toMatchObject({ delivered: true })
+    expect(receiver.hits).toEqual(["/hooks/research"])
+  })
+
+  it("does not follow a redirect from the callback host to a private address", async () => {
+    const metadata = await startServer((request, response) => response.end("secret"))
+    const callbackHost = await startServer((request, response) => {
+      response.writeHead(302, { Location: `${metadata.url}/latest/meta-data/` })
+      response.end()
+    })
+
+    const job = await runWithCallback(`${callbackHost.url}/hooks/research`)
+
+    expect(job.callback).toMatchObject({ delivered: false, error: expect.stringContaining("302") })
+    expect(callbackHost.hits).toEqual(["/hooks/research"])
+    expect(metadata.hits).toEqual([])
+  })
+
+  it("refuses to connect when the callback host resolves to a private address at delivery time", async () => {
+    const actual = await vi.importActual<typeof import("../lib/callback-url")>("../lib/callback-url")
+    vi.mocked(callbackUrl.getCallbackAgents).mockImplementation(actual.getCallbackAgents)
+    const receiver = await startServer((request, response) => response.end("ok"))
+
+    const job = await runWithCallback(`${receiver.url}/hooks/research`)
+
+    expect(job.callback).toMatchObject({
+      delivered: false,
+      error: expect.stringMatching(/resolves to non-public address (127\.0\.0\.1|::1)/),
+    })
+    expect(receiver.hits).toEqual([])
+  })
+})
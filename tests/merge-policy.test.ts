@@ -0,0 +1,143 @@
+import { mkdtempSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import {
+  createMergePolicyOverrideSchema,
+  DEFAULT_MERGE_POLICIES,
+  FieldMerger,
+  getMergePolicy,
+} from "../lib/merge-policy"
+import { ProvenanceRecorder } from "../lib/provenance"
+import type { MergePolicy } from "../lib/types"
+
+const SOURCES = {
+  tmdb: { source: "tmdb", fetchedAt: "2024-01-01T00:00:00.000Z" },
+  omdb: { source: "omdb", fetchedAt: "2024-01-02T00:00:00.000Z" },
+}
+
+function createMerger(policy: MergePolicy) {
+  const provenance = new ProvenanceRecorder()
+  return { merger: new FieldMerger(policy, SOURCES, provenance), provenance }
+}
+
+describe("FieldMerger", () => {
+  describe("first strategy", () => {
+    const policy: MergePolicy = { runtime: { sources: ["tmdb", "omdb"], strategy: "first" } }
+
+    it("takes the value of the first source that has one", () => {
+      const { merger, provenance } = createMerger(policy)
+
+      expect(merger.merge("runtime", { tmdb: undefined, omdb: 136 })).toBe(136)
+      expect(provenance.toJSON()).toEqual({ runtime: SOURCES.omdb })
+      expect(merger.getConflicts()).toEqual([])
+    })
+
+    it("reports a conflict when the sources disagree", () => {
+      const { merger, provenance } = createMerger(policy)
+
+      expect(merger.merge("runtime", { tmdb: 136, omdb: 138 })).toBe(136)
+      expect(provenance.toJSON()).toEqual({ runtime: SOURCES.tmdb })
+      expect(merger.getConflicts()).toEqual([{ field: "runtime", chosen: "tmdb", values: { tmdb: 136, omdb: 138 } }])
+    })
+
+    it("does not report differences in case, spacing or list order", () => {
+      const { merger } = createMerger({
+        plot: { sources: ["tmdb", "omdb"], strategy: "first" },
+        genres: { sources: ["tmdb", "omdb"], strategy: "first" },
+      })
+
+      merger.merge("plot", { tmdb: "A hacker  learns the truth.", omdb: "a hacker learns the truth." })
+      merger.merge("genres", { tmdb: ["Action", "Sci-Fi"], omdb: ["sci-fi", "action"] })
+      expect(merger.getConflicts()).toEqual([])
+    })
+
+    it("returns undefined when no source has a value", () => {
+      const { merger, provenance } = createMerger(policy)
+
+      expect(merger.merge("runtime", { tmdb: null, omdb: undefined })).toBeUndefined()
+      expect(provenance.toJSON()).toEqual({})
+    })
+  })
+
+  describe("union strategy", () => {
+    const policy: MergePolicy = { cast: { sources: ["tmdb", "omdb"], strategy: "union" } }
+
+    it("combines every source's list, keeping the first entry per name", () => {
+      const { merger, provenance } = createMerger(policy)
+
+      const cast = merger.merge("cast", {
+        tmdb: [{ person: { name: "Keanu Reeves", tmdbId: "6384" } }],
+        omdb: [{ person: { name: "keanu reeves" } }, { person: { name: "Laurence Fishburne" } }],
+      })
+
+      expect(cast).toEqual([
+        { person: { name: "Keanu Reeves", tmdbId: "6384" } },
+        { person: { name: "Laurence Fishburne" } },
+      ])
+      expect(provenance.toJSON()).toEqual({ cast: { ...SOURCES.tmdb, mergedFrom: ["tmdb", "omdb"] } })
+      expect(merger.getConflicts()).toEqual([])
+    })
+
+    it("records a single contributor without mergedFrom", () => {
+      const { merger, provenance } = createMerger(policy)
+
+      expect(merger.merge("cast", { tmdb: [], omdb: ["Carrie-Anne Moss"] })).toEqual(["Carrie-Anne Moss"])
+      expect(provenance.toJSON()).toEqual({ cast: SOURCES.omdb })
+    })
+
+    it("falls back to the first source for values that are not lists", () => {
+      const { merger } = createMerger({ rated: { sources: ["omdb", "tmdb"], strategy: "union" } })
+
+      expect(merger.merge("rated", { omdb: "R", tmdb: "PG-13" })).toBe("R")
+      expect(merger.getConflicts()).toEqual([{ field: "rated", chosen: "omdb", values: { omdb: "R", tmdb: "PG-13" } }])
+    })
+  })
+})
+
+describe("getMergePolicy", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.resetModules()
+  })
+
+  it("returns the defaults without overrides", () => {
+    expect(getMergePolicy("movie")).toEqual(DEFAULT_MERGE_POLICIES.movie)
+  })
+
+  it("applies the caller's overrides field by field", () => {
+    const policy = getMergePolicy("movie", { cast: { strategy: "union" }, plot: { sources: ["omdb", "tmdb"] } })
+
+    expect(policy.cast).toEqual({ sources: ["tmdb", "omdb"], strategy: "union" })
+    expect(policy.plot).toEqual({ sources: ["omdb", "tmdb"], strategy: "first" })
+    expect(policy.runtime).toEqual(DEFAULT_MERGE_POLICIES.movie.runtime)
+  })
+
+  it("layers the caller's overrides over MERGE_POLICY_FILE", async () => {
+    const file = path.join(mkdtempSync(path.join(tmpdir(), "merge-policy-")), "policy.json")
+    writeFileSync(file, JSON.stringify({ movie: { plot: { sources: ["omdb"] }, genres: { strategy: "union" } } }))
+    vi.stubEnv("MERGE_POLICY_FILE", file)
+    vi.resetModules()
+    const { getMergePolicy: getConfiguredPolicy } = await import("../lib/merge-policy")
+
+    const policy = getConfiguredPolicy("movie", { genres: { sources: ["omdb", "tmdb"] } })
+
+    expect(policy.plot).toEqual({ sources: ["omdb"], strategy: "first" })
+    expect(policy.genres).toEqual({ sources: ["omdb", "tmdb"], strategy: "union" })
+  })
+})
+
+describe("createMergePolicyOverrideSchema", () => {
+  const schema = createMergePolicyOverrideSchema("movie")
+
+  it("accepts reordered sources and a new strategy", () => {
+    expect(schema.safeParse({ cast: { sources: ["omdb"], strategy: "union" } }).success).toBe(true)
+  })
+
+  it("rejects fields that are not merged and sources a field does not have", () => {
+    const result = schema.safeParse({ budget: { strategy: "union" }, cast: { sources: ["spotify"] } })
+
+    expect(result.success).toBe(false)
+    expect(result.error?.issues.map(({ path }) => path)).toEqual([["budget"], ["cast", "sources"]])
+  })
+})
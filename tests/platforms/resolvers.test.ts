@@ -0,0 +1,262 @@
+import { AxiosError, type AxiosAdapter } from "axios"
+import { readFileSync } from "fs"
+import path from "path"
+import { describe, expect, it } from "vitest"
+import { HttpClient } from "../../lib/http-client"
+import { platformRegistry } from "../../lib/platforms"
+import { findAll, getSelectorPack } from "../../lib/selectors"
+import { FIXTURES_DIR } from "../helpers"
+
+interface ResolverTitle {
+  title: string
+  year: number
+  url: string
+}
+
+interface ResolverCase {
+  id: string
+  movie: ResolverTitle
+  series: ResolverTitle
+  homepage: string
+}
+
+// Each adapter is looked up with titles the platform actually carries. Its fixtures are Google results pages for the
+// adapter's site-restricted query: `movie-results.html` and `series-results.html` list a browse page, the title page
+// and a related title, `homepage-results.html` only the homepage and a browse page
+const CASES: ResolverCase[] = [
+  {
+    id: "cinemax",
+    movie: { title: "Mad Max: Fury Road", year: 2015, url: "https://www.cinemax.com/movies/mad-max-fury-road" },
+    series: { title: "Banshee", year: 2013, url: "https://www.cinemax.com/series/banshee" },
+    homepage: "https://www.cinemax.com/",
+  },
+  {
+    id: "cineplex",
+    movie: { title: "Dune", year: 2021, url: "https://store.cineplex.com/product/dune/33896" },
+    series: {
+      title: "Schitt's Creek",
+      year: 2015,
+      url: "https://store.cineplex.com/season/schitts-creek-season-1/30547",
+    },
+    homepage: "https://store.cineplex.com/",
+  },
+  {
+    id: "crackle",
+    movie: {
+      title: "The Karate Kid",
+      year: 1984,
+      url: "https://www.crackle.com/watch/e1a5c0b6-4f3d-4a8e-9c2f-7b1d0e6a9f42/the-karate-kid",
+    },
+    series: {
+      title: "Comedians in Cars Getting Coffee",
+      year: 2012,
+      url: "https://www.crackle.com/watch/8f2b6d14-0c7e-4a3b-b9e5-5d1a2c8f7e06/comedians-in-cars-getting-coffee",
+    },
+    homepage: "https://www.crackle.com/",
+  },
+  {
+    id: "crunchyroll",
+    movie: {
+      title: "Jujutsu Kaisen 0",
+      year: 2021,
+      url: "https://www.crunchyroll.com/watch/G4VUQ588P/jujutsu-kaisen-0",
+    },
+    series: {
+      title: "Attack on Titan",
+      year: 2013,
+      url: "https://www.crunchyroll.com/series/GR751KNZY/attack-on-titan",
+    },
+    homepage: "https://www.crunchyroll.com/",
+  },
+  {
+    id: "discovery-plus",
+    movie: {
+      title: "Lost Women of Highway 20",
+      year: 2023,
+      url: "https://www.discoveryplus.com/video/lost-women-of-highway-20/lost-women-of-highway-20",
+    },
+    series: { title: "90 Day Fiancé", year: 2014, url: "https://www.discoveryplus.com/show/90-day-fiance" },
+    homepage: "https://www.discoveryplus.com/",
+  },
+  {
+    id: "epix",
+    movie: { title: "Rocky", year: 1976, url: "https://www.mgmplus.com/movie/rocky" },
+    series: { title: "Godfather of Harlem", year: 2019, url: "https://www.mgmplus.com/series/godfather-of-harlem" },
+    homepage: "https://www.mgmplus.com/",
+  },
+  {
+    id: "fandango",
+    movie: { title: "Dune", year: 2021, url: "https://athome.fandango.com/content/movies/details/Dune/2103217" },
+    series: {
+      title: "Yellowstone",
+      year: 2018,
+      url: "https://athome.fandango.com/content/tv/details/Yellowstone/1004437",
+    },
+    homepage: "https://athome.fandango.com/",
+  },
+  {
+    id: "funimation",
+    movie: {
+      title: "Dragon Ball Super: Broly",
+      year: 2018,
+      url: "https://www.funimation.com/shows/dragon-ball-super-broly/",
+    },
+    series: { title: "My Hero Academia", year: 2016, url: "https://www.funimation.com/shows/my-hero-academia/" },
+    homepage: "https://www.funimation.com/",
+  },
+  {
+    id: "lionsgate-play",
+    movie: { title: "John Wick", year: 2014, url: "https://www.lionsgateplay.com/in/movie/john-wick" },
+    series: { title: "Power", year: 2014, url: "https://www.lionsgateplay.com/in/series/power" },
+    homepage: "https://www.lionsgateplay.com/",
+  },
+  {
+    id: "lionsgate",
+    movie: { title: "John Wick", year: 2014, url: "https://www.lionsgate.com/movies/john-wick" },
+    series: { title: "Mad Men", year: 2007, url: "https://www.lionsgate.com/tv/mad-men" },
+    homepage: "https://www.lionsgate.com/",
+  },
+  {
+    id: "microsoft-store",
+    movie: { title: "The Matrix", year: 1999, url: "https://www.microsoft.com/en-us/p/the-matrix/8d6kgwzl5xjd" },
+    series: {
+      title: "Breaking Bad",
+      year: 2008,
+      url: "https://www.microsoft.com/en-us/p/breaking-bad-season-1/8d6kgwxn6wk0",
+    },
+    homepage: "https://www.microsoft.com/en-us/store/movies-and-tv",
+  },
+  {
+    id: "peacock",
+    movie: {
+      title: "Oppenheimer",
+      year: 2023,
+      url: "https://www.peacocktv.com/watch/asset/movies/oppenheimer/e7a4c1d0-5b2f-3c8e-9a6d-4f1b0c7e2d58",
+    },
+    series: { title: "The Office", year: 2005, url: "https://www.peacocktv.com/stream-tv/the-office" },
+    homepage: "https://www.peacocktv.com/",
+  },
+  {
+    id: "plex",
+    movie: { title: "The Terminator", year: 1984, url: "https://watch.plex.tv/movie/the-terminator" },
+    series: { title: "Forensic Files", year: 2000, url: "https://watch.plex.tv/show/forensic-files" },
+    homepage: "https://www.plex.tv/",
+  },
+  {
+    id: "rakuten-tv",
+    movie: { title: "Paddington", year: 2014, url: "https://www.rakuten.tv/uk/movies/paddington" },
+    series: { title: "Peaky Blinders", year: 2013, url: "https://www.rakuten.tv/uk/tv_shows/peaky-blinders" },
+    homepage: "https://www.rakuten.tv/uk",
+  },
+  {
+    id: "roku-channel",
+    movie: {
+      title: "Weird: The Al Yankovic Story",
+      year: 2022,
+      url: "https://therokuchannel.roku.com/details/41ef4b5b3a0352d2a4e0a2c1b8f5d7e9/weird-the-al-yankovic-story",
+    },
+    series: {
+      title: "Die Hart",
+      year: 2023,
+      url: "https://therokuchannel.roku.com/details/a6d2f8c1e4b7093d5f1a2c8e6b4d9f03/die-hart",
+    },
+    homepage: "https://therokuchannel.roku.com/",
+  },
+  {
+    id: "showtime",
+    movie: { title: "Black Swan", year: 2010, url: "https://www.sho.com/titles/3290364/black-swan" },
+    series: { title: "Yellowjackets", year: 2021, url: "https://www.sho.com/yellowjackets/season/1" },
+    homepage: "https://www.sho.com/",
+  },
+  {
+    id: "sky-store",
+    movie: {
+      title: "Top Gun: Maverick",
+      year: 2022,
+      url: "https://www.skystore.com/product/top-gun-maverick/c4e8a2f1-7b3d-4e9a-a0c6-5d2f8b1e3a97",
+    },
+    series: {
+      title: "Chernobyl",
+      year: 2019,
+      url: "https://www.skystore.com/product/chernobyl-season-1/5f2b9e7a-3c1d-4a8e-9b6f-0d4e2a7c1b38",
+    },
+    homepage: "https://www.skystore.com/",
+  },
+  {
+    id: "starz",
+    movie: { title: "The Hunger Games", year: 2012, url: "https://www.starz.com/us/en/movies/the-hunger-games-29934" },
+    series: { title: "Outlander", year: 2014, url: "https://www.starz.com/us/en/series/outlander/24767" },
+    homepage: "https://www.starz.com/us/en/",
+  },
+  {
+    id: "tubi-tv",
+    movie: { title: "Hellboy", year: 2004, url: "https://tubitv.com/movies/306427/hellboy" },
+    series: { title: "Hell's Kitchen", year: 2005, url: "https://tubitv.com/series/300004857/hells-kitchen" },
+    homepage: "https://tubitv.com/",
+  },
+  {
+    id: "vudu",
+    movie: {
+      title: "Interstellar",
+      year: 2014,
+      url: "https://www.vudu.com/content/movies/details/Interstellar/569047",
+    },
+    series: { title: "Friends", year: 1994, url: "https://www.vudu.com/content/tv/details/Friends-Season-1/82419" },
+    homepage: "https://www.vudu.com/",
+  },
+]
+
+// Serves the fixture for every Google search; anything else, such as the slug probes some adapters try first, is
+// answered with 404
+function createSearchClient(id: string, fixture: string): HttpClient {
+  const html = readFileSync(path.join(FIXTURES_DIR, "platforms", id, fixture), "utf8")
+  const adapter: AxiosAdapter = async (config) => {
+    const response = { status: 200, statusText: "OK", headers: { "content-type": "text/html" }, data: html, config }
+    if (config.url?.startsWith("https://www.google.com/search")) return response
+    throw new AxiosError("Not Found", AxiosError.ERR_BAD_REQUEST, config, null, {
+      ...response,
+      status: 404,
+      statusText: "Not Found",
+      data: "",
+    })
+  }
+  return new HttpClient({ adapter, retry: { maxAttempts: 1 } })
+}
+
+describe.each(CASES)("$id resolver", ({ id, movie, series, homepage }) => {
+  const platform = platformRegistry.get(id)!
+  const movieLookup = { title: movie.title, year: movie.year, kind: "movie" as const }
+  const seriesLookup = { title: series.title, year: series.year, kind: "series" as const }
+
+  it("resolves the title page of a movie and a series", async () => {
+    expect(await platform.resolveLink!(movieLookup, createSearchClient(id, "movie-results.html"))).toBe(movie.url)
+    expect(await platform.resolveLink!(seriesLookup, createSearchClient(id, "series-results.html"))).toBe(series.url)
+  })
+
+  it("resolves nothing when the results only hold the homepage", async () => {
+    const http = createSearchClient(id, "homepage-results.html")
+
+    expect(await platform.resolveLink!(movieLookup, http)).toBeNull()
+    expect(await platform.resolveLink!(seriesLookup, http)).toBeNull()
+  })
+
+  it("accepts the title pages and rejects the homepage as content URLs", () => {
+    expect(platformRegistry.isContentUrl(movie.url)).toBe(true)
+    expect(platformRegistry.isContentUrl(series.url)).toBe(true)
+    expect(platformRegistry.isContentUrl(homepage)).toBe(false)
+  })
+
+  it("extracts the title pages from a TMDB watch page as links the adapter accepts", () => {
+    const script = `window.__offers = {"movie":"${movie.url}","series":"${series.url}"}`
+
+    const extracted = getSelectorPack("tmdb-watch").patterns.providerUrl.flatMap(({ pattern, platform }) =>
+      findAll(script, pattern).map(([link]) => ({ platform, link })),
+    )
+
+    expect(extracted).toEqual([
+      { platform: platform.name, link: movie.url },
+      { platform: platform.name, link: series.url },
+    ])
+    expect(extracted.every(({ link }) => platformRegistry.isContentUrl(link))).toBe(true)
+  })
+})
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest"
+import { SourceReporter } from "../../lib/progress"
+import { BookScraper } from "../../lib/scrapers/book-scraper"
+import { createFixtureClient, createTestCache } from "../helpers"
+
+describe("BookScraper", () => {
+  it("parses the recorded Google Books volume", async () => {
+    const sources = new SourceReporter()
+    const book = await new BookScraper(createFixtureClient("book"), createTestCache()).scrapeBookData(
+      { title: "Dune", author: "Frank Herbert" },
+      sources.listener,
+    )
+
+    expect(book).toMatchObject({
+      title: "Dune",
+      author: [{ name: "Frank Herbert" }],
+      isbn: "9780441013593",
+      publisher: { name: "Penguin" },
+      pages: 528,
+      language: "en",
+      ratings: { googleBooks: { score: 4.5, votes: 1200 } },
+      references: { isbn10: "0441013597", isbn13: "9780441013593", googleBooksId: "B1hSG45JCX4C" },
+      match: { source: "googleBooks", status: "matched", id: "B1hSG45JCX4C" },
+    })
+    expect(book.availableOn.ebook.map(({ platform }) => platform)).toContain("Google Play Books")
+    expect(sources.toJSON()).toContainEqual(expect.objectContaining({ source: "googleBooks", status: "succeeded" }))
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest"
+import { SourceReporter } from "../../lib/progress"
+import { MovieScraper } from "../../lib/scrapers/movie-scraper"
+import { createFixtureClient, createTestCache, createTestLimiter } from "../helpers"
+
+function createScraper(): MovieScraper {
+  return new MovieScraper(createFixtureClient("movie"), createTestCache(), undefined, createTestLimiter())
+}
+
+describe("MovieScraper", () => {
+  it("combines the recorded TMDB and OMDB responses", async () => {
+    const sources = new SourceReporter()
+    const movie = await createScraper().scrapeMovieData({ title: "The Matrix", year: 1999 }, sources.listener)
+
+    expect(movie).toMatchObject({
+      title: "The Matrix",
+      year: 1999,
+      released: "1999-03-31",
+      runtime: 136,
+      rated: "R",
+      genres: ["Action", "Science Fiction"],
+      director: [
+        { name: "Lana Wachowski", tmdbId: "9340" },
+        { name: "Lilly Wachowski", tmdbId: "9339" },
+      ],
+      ratings: { imdb: { score: 8.7, votes: 2100000 }, rottenTomatoes: { score: 83 }, metacritic: { score: 73 } },
+      boxOffice: { budget: "$63,000,000", grossWorldwide: "$463,517,383" },
+      trailer: { url: "https://www.youtube.com/watch?v=vKQi3bBA1y8" },
+      references: { imdbId: "tt0133093", tmdbId: "603" },
+      match: { source: "tmdb", status: "matched", id: "603" },
+    })
+    expect(movie.cast.map(({ person, character }) => [person.name, character])).toEqual([
+      ["Keanu Reeves", "Neo"],
+      ["Laurence Fishburne", "Morpheus"],
+      ["Carrie-Anne Moss", "Trinity"],
+    ])
+  })
+
+  it("reports each source's outcome", async () => {
+    const sources = new SourceReporter()
+    await createScraper().scrapeMovieData({ title: "The Matrix", year: 1999, regions: ["US"] }, sources.listener)
+    const statuses = sources.toJSON().map(({ source, region, status }) => ({ source, region, status }))
+
+    expect(statuses).toEqual(
+      expect.arrayContaining([
+        { source: "tmdb", region: undefined, status: "succeeded" },
+        { source: "omdb", region: undefined, status: "succeeded" },
+        { source: "tmdbWatchProviders", region: "US", status: "succeeded" },
+        { source: "justwatch", region: "US", status: "succeeded" },
+      ]),
+    )
+  })
+
+  it("links each provider to its title page from the watch page, JustWatch and storefront search", async () => {
+    const movie = await createScraper().scrapeMovieData({ title: "The Matrix", year: 1999, regions: ["US"] })
+
+    // The watch page links Netflix through a JustWatch redirect and Apple TV directly; Amazon Video is missing there,
+    // so its adapter finds the title in Amazon's search. JustWatch adds its own Amazon Video offer and skips the rows
+    // for the sequels
+    expect(movie.availableOn.regions.US).toEqual({
+      streaming: [{ platform: "Netflix", link: "https://www.netflix.com/title/20557937", type: "subscription" }],
+      purchase: [
+        {
+          platform: "Apple TV",
+          link: "https://tv.apple.com/us/movie/the-matrix/umc.cmc.1vrwat5k1ucm5k42q97ioqyq3",
+          type: "buy",
+        },
+        { platform: "Amazon Video", link: "https://www.amazon.com/dp/B000HAB4KS", type: "rent" },
+        { platform: "Amazon Video", link: "https://www.amazon.com/gp/video/detail/B000I9YLWG", type: "buy" },
+      ],
+    })
+  })
+
+  it("leaves out providers whose title page could not be found", async () => {
+    const movie = await createScraper().scrapeMovieData({ title: "The Matrix", year: 1999, regions: ["GB"] })
+
+    // TMDB lists Netflix in GB, but neither the GB watch page nor a Netflix search is part of the fixtures
+    expect(movie.availableOn.regions.GB).toEqual({ streaming: [], purchase: [] })
+  })
+
+  it("does not search JustWatch by title without a confident match", async () => {
+    const sources = new SourceReporter()
+    const movie = await createScraper().scrapeMovieData(
+      { title: "The Matrix", year: 2010, regions: ["US"] },
+      sources.listener,
+    )
+
+    expect(movie.match).toMatchObject({ source: "tmdb", status: "not_found" })
+    expect(sources.toJSON()).toContainEqual(
+      expect.objectContaining({ source: "justwatch", region: "US", status: "skipped" }),
+    )
+    expect(movie.availableOn.regions).toEqual({ US: { streaming: [], purchase: [] } })
+  })
+})
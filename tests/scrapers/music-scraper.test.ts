@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from "vitest"
+import { MemoryCacheStore, ResponseCache } from "../../lib/cache"
+import { SourceReporter } from "../../lib/progress"
+import { MusicScraper } from "../../lib/scrapers/music-scraper"
+import { createFixtureClient, createTestCache } from "../helpers"
+
+describe("MusicScraper", () => {
+  it("parses the recorded Spotify track, artist, album and audio features", async () => {
+    const sources = new SourceReporter()
+    const track = await new MusicScraper(createFixtureClient("music"), createTestCache()).scrapeMusicData(
+      { title: "Bohemian Rhapsody", artist: "Queen" },
+      sources.listener,
+    )
+
+    expect(track).toMatchObject({
+      title: "Bohemian Rhapsody",
+      artist: { name: "Queen", spotifyId: "1dfeR4HaWDbWqFHLkxsg1d", genres: ["classic rock", "glam rock", "rock"] },
+      album: { title: "A Night At The Opera (2011 Remaster)", releaseYear: 1975, recordLabel: "EMI", totalTracks: 12 },
+      releaseYear: 1975,
+      duration: "5 min 54 sec",
+      bpm: 144,
+      key: "A#",
+      references: { spotifyId: "4u7EnebtmKWzUH433cf5Qv", isrc: "GBUM71029604" },
+      match: { source: "spotify", status: "matched", id: "4u7EnebtmKWzUH433cf5Qv" },
+    })
+    expect(track.availableOn.streaming).toContainEqual({
+      platform: "Spotify",
+      link: "https://open.spotify.com/track/4u7EnebtmKWzUH433cf5Qv",
+      type: "subscription",
+    })
+    expect(sources.toJSON()).toContainEqual(expect.objectContaining({ source: "spotify", status: "succeeded" }))
+  })
+
+  it("does not cache availability when a platform lookup failed", async () => {
+    const store = new MemoryCacheStore()
+    const set = vi.spyOn(store, "set")
+
+    // Storefront pages are not part of the recording, so every scraped platform fails
+    const track = await new MusicScraper(createFixtureClient("music"), new ResponseCache(store)).scrapeMusicData({
+      title: "Bohemian Rhapsody",
+      artist: "Queen",
+    })
+
+    expect(track.availableOn.streaming).toContainEqual(expect.objectContaining({ platform: "Spotify" }))
+    const keys = set.mock.calls.map(([key]) => key)
+    expect(keys).toContainEqual(expect.stringMatching(/^spotify:/))
+    expect(keys).not.toContainEqual(expect.stringMatching(/^availability:/))
+  })
+})
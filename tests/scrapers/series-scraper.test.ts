@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest"
+import { SourceReporter } from "../../lib/progress"
+import { SeriesScraper } from "../../lib/scrapers/series-scraper"
+import { createFixtureClient, createTestCache, createTestLimiter } from "../helpers"
+
+function createScraper(): SeriesScraper {
+  return new SeriesScraper(createFixtureClient("series"), createTestCache(), undefined, createTestLimiter())
+}
+
+describe("SeriesScraper", () => {
+  it("parses the recorded TMDB series", async () => {
+    const series = await createScraper().scrapeSeriesData({ title: "Breaking Bad" })
+
+    expect(series).toMatchObject({
+      title: "Breaking Bad",
+      year: 2008,
+      released: "2008-01-20",
+      genres: ["Drama", "Crime"],
+      seasons: 5,
+      episodes: 62,
+      status: "Ended",
+      creators: [{ name: "Vince Gilligan", tmdbId: "66633" }],
+      production: { networks: [{ name: "AMC", id: 174 }] },
+      ratings: { tmdb: { score: 8.9, votes: 14000 } },
+      references: { tmdbId: "1396" },
+      match: { source: "tmdb", status: "matched", id: "1396" },
+    })
+    expect(series.cast.map(({ person, character }) => [person.name, character])).toEqual([
+      ["Bryan Cranston", "Walter White"],
+      ["Aaron Paul", "Jesse Pinkman"],
+    ])
+  })
+
+  it("lists TMDB watch providers per region", async () => {
+    const sources = new SourceReporter()
+    const series = await createScraper().scrapeSeriesData(
+      { title: "Breaking Bad", regions: ["US", "GB", "IN"] },
+      sources.listener,
+    )
+
+    // JustWatch and the US watch page link the title pages; GB has neither, so Netflix falls back to the watch page
+    expect(series.availableOn.regions).toEqual({
+      US: {
+        streaming: [{ platform: "Netflix", link: "https://www.netflix.com/title/70143836", type: "subscription" }],
+        purchase: [
+          { platform: "Amazon Video", link: "https://www.amazon.com/gp/video/detail/B00BFX8P3M", type: "buy" },
+          {
+            platform: "Apple TV",
+            link: "https://tv.apple.com/us/show/breaking-bad/umc.cmc.1cvxd7a0a3i6wnd9vn2u8q6x7",
+            type: "buy",
+          },
+        ],
+      },
+      GB: {
+        streaming: [
+          { platform: "Netflix", link: "https://www.themoviedb.org/tv/1396/watch?locale=GB", type: "subscription" },
+        ],
+        purchase: [],
+      },
+      IN: { streaming: [], purchase: [] },
+    })
+    expect(series.availableOn.streaming).toEqual(series.availableOn.regions.US.streaming)
+    expect(
+      sources
+        .toJSON()
+        .filter(({ source }) => source === "tmdbWatchProviders")
+        .map(({ region, status }) => [region, status]),
+    ).toEqual(expect.arrayContaining([["US", "succeeded"], ["GB", "succeeded"], ["IN", "succeeded"]]))
+  })
+
+  it("leaves out title searches without a confident match", async () => {
+    const sources = new SourceReporter()
+    const series = await createScraper().scrapeSeriesData(
+      { title: "Breaking Bad", year: 2015, regions: ["US"] },
+      sources.listener,
+    )
+
+    expect(series.match).toMatchObject({ source: "tmdb", status: "not_found" })
+    expect(sources.toJSON()).toContainEqual(
+      expect.objectContaining({ source: "justwatch", region: "US", status: "skipped" }),
+    )
+    // The US storefront search fallbacks search by title as well
+    expect(series.availableOn.regions).toEqual({ US: { streaming: [], purchase: [] } })
+  })
+})
@@ -0,0 +1,22 @@
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  test: {
+    include: ["tests/**/*.test.ts"],
+    // The scraper fixtures were recorded against `npm run mock:upstream`, so the upstream URLs (and the hashes of the
+    // fixture files) point at it; the placeholder keys only have to be set for the sources not to be skipped
+    env: {
+      LOG_LEVEL: "error",
+      TMDB_BASE_URL: "http://localhost:4010/tmdb/3",
+      OMDB_BASE_URL: "http://localhost:4010/omdb",
+      SPOTIFY_BASE_URL: "http://localhost:4010/spotify/v1",
+      SPOTIFY_ACCOUNTS_BASE_URL: "http://localhost:4010/spotify-accounts",
+      GOOGLE_BOOKS_BASE_URL: "http://localhost:4010/google-books/books/v1",
+      TMDB_API_KEY: "mock",
+      OMDB_API_KEY: "mock",
+      SPOTIFY_CLIENT_ID: "mock",
+      SPOTIFY_CLIENT_SECRET: "mock",
+      GOOGLE_BOOKS_API_KEY: "mock",
+    },
+  },
+})